@@ -0,0 +1,157 @@
+// The mock backend's HTTP handler: POST /score and POST /information, answered
+// according to the current scenario. server.ts runs it; tests start their own.
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { NDJSON_CONTENT_TYPE } from '@/lib/streaming';
+import { SCENARIOS, Scenario, describeAnswer, generateHexagonData, scoreCells, toWirePayload, topCells } from './data';
+
+// Request bodies sent by the API routes
+type BackendRequest = {
+  message?: string;
+  stream?: boolean;
+  cells?: string[];            // /score for imported sites
+  additional_context?: string; // /information: previous answer
+};
+
+export type MockBackendOptions = {
+  scenario: Scenario;   // until switched with POST /__scenario
+  slowMs: number;       // delay of the "slow" scenario
+  tokenDelayMs: number; // between streamed tokens
+  logRequests: boolean;
+};
+
+export function parseScenario(value: string | null | undefined): Scenario | undefined {
+  return SCENARIOS.find((scenario) => scenario === value);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function readBody(request: IncomingMessage): Promise<BackendRequest> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString('utf8');
+  return text ? JSON.parse(text) : {};
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+// Stream the markdown word by word, then the map payload, like the real backend
+async function sendStream(
+  response: ServerResponse,
+  answer: string,
+  payload: { hexagonData: unknown; highlighted: unknown },
+  tokenDelayMs: number
+): Promise<void> {
+  response.writeHead(200, { 'Content-Type': NDJSON_CONTENT_TYPE });
+  for (const token of answer.match(/\S+\s*/g) || []) {
+    if (response.destroyed) return;
+    response.write(JSON.stringify({ token }) + '\n');
+    await sleep(tokenDelayMs);
+  }
+  response.end(JSON.stringify(payload) + '\n');
+}
+
+function buildAnswer(path: string, body: BackendRequest, scenario: Scenario) {
+  const message = body.message || '';
+
+  if (path === '/score' && Array.isArray(body.cells)) {
+    const hexagonData = scoreCells(body.cells, scenario);
+    return {
+      response: `Scored ${Object.keys(hexagonData).length} candidate cells.`,
+      hexagonData: toWirePayload(hexagonData, scenario),
+      highlighted: []
+    };
+  }
+
+  const hexagonData = generateHexagonData(message, scenario);
+  const top = topCells(hexagonData);
+  let response = describeAnswer(message, hexagonData, scenario);
+
+  if (path === '/information') {
+    if (body.additional_context) {
+      response += '\n\n*Follow-up to the previous answer.*';
+    }
+    // /information weights its highlights, strongest first
+    const highlighted = Object.fromEntries(top.map((hex, i) => [hex, Number((1 - i * 0.15).toFixed(2))]));
+    return { response, hexagonData: toWirePayload(hexagonData, scenario), highlighted };
+  }
+
+  return { response, hexagonData: toWirePayload(hexagonData, scenario), highlighted: top };
+}
+
+export function createMockBackend(options: MockBackendOptions): Server {
+  let currentScenario = options.scenario;
+
+  async function handleBackendRequest(request: IncomingMessage, response: ServerResponse, url: URL): Promise<void> {
+    const scenario =
+      parseScenario(request.headers['x-mock-scenario'] as string | undefined) ||
+      parseScenario(url.searchParams.get('scenario')) ||
+      currentScenario;
+
+    const body = await readBody(request);
+    if (options.logRequests) {
+      console.log(`${request.method} ${url.pathname} [${scenario}] ${body.message ?? `${body.cells?.length ?? 0} cells`}`);
+    }
+
+    switch (scenario) {
+      case 'error':
+        sendJson(response, 500, { detail: 'Mock backend failure' });
+        return;
+      case 'malformed':
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end('{"response": "Truncated answer", "hexagonData": {"871fb4662ffffff": {"score": 0.8,');
+        return;
+      case 'slow':
+        await sleep(options.slowMs);
+        break;
+    }
+
+    const answer = buildAnswer(url.pathname, body, scenario);
+    if (body.stream) {
+      await sendStream(response, answer.response, { hexagonData: answer.hexagonData, highlighted: answer.highlighted }, options.tokenDelayMs);
+    } else {
+      sendJson(response, 200, answer);
+    }
+  }
+
+  return createServer(async (request, response) => {
+    const url = new URL(request.url || '/', `http://${request.headers.host || 'localhost'}`);
+
+    try {
+      if (request.method === 'GET' && url.pathname === '/health') {
+        sendJson(response, 200, { status: 'ok', scenario: currentScenario });
+        return;
+      }
+
+      if (request.method === 'POST' && url.pathname === '/__scenario') {
+        const scenario = parseScenario(((await readBody(request)) as { scenario?: string }).scenario);
+        if (!scenario) {
+          sendJson(response, 400, { error: `Unknown scenario; expected one of ${SCENARIOS.join(', ')}` });
+          return;
+        }
+        currentScenario = scenario;
+        sendJson(response, 200, { scenario });
+        return;
+      }
+
+      if (request.method === 'POST' && (url.pathname === '/score' || url.pathname === '/information')) {
+        await handleBackendRequest(request, response, url);
+        return;
+      }
+
+      sendJson(response, 404, { error: 'Not found' });
+    } catch (error) {
+      console.error('Mock backend error:', error);
+      if (!response.headersSent) {
+        sendJson(response, 400, { error: error instanceof Error ? error.message : 'Bad request' });
+      } else {
+        response.end();
+      }
+    }
+  });
+}
@@ -0,0 +1,133 @@
+// Deterministic sample answers for the mock backend
+
+import { gridDisk, latLngToCell } from 'h3-js';
+import { HexagonDataItem, HexagonDataMap } from '@/lib/hexagons';
+import { IXPS, distanceKm, sampleCellMetrics } from '@/lib/sample';
+
+export type Scenario = 'good' | 'bad' | 'mixed' | 'empty' | 'slow' | 'error' | 'malformed';
+
+export const SCENARIOS: Scenario[] = ['good', 'bad', 'mixed', 'empty', 'slow', 'error', 'malformed'];
+
+type Region = {
+  name: string;
+  lat: number;
+  lng: number;
+  ring: number; // gridDisk radius around the center cell
+};
+
+const RESOLUTION = 7;
+
+const REGIONS: Region[] = [
+  { name: 'Île-de-France', lat: 48.85, lng: 2.35, ring: 8 },
+  { name: 'Hauts-de-France', lat: 50.63, lng: 3.06, ring: 6 },
+  { name: 'Grand Est', lat: 48.58, lng: 7.75, ring: 6 },
+  { name: 'Normandie', lat: 49.18, lng: -0.37, ring: 5 },
+  { name: 'Bretagne', lat: 48.11, lng: -1.68, ring: 5 },
+  { name: 'Pays de la Loire', lat: 47.22, lng: -1.55, ring: 5 },
+  { name: 'Auvergne-Rhône-Alpes', lat: 45.76, lng: 4.84, ring: 6 },
+  { name: 'Alpes', lat: 45.19, lng: 5.72, ring: 4 },
+  { name: 'Massif Central', lat: 45.78, lng: 3.08, ring: 4 },
+  { name: 'Nouvelle-Aquitaine', lat: 44.84, lng: -0.58, ring: 5 },
+  { name: 'Occitanie', lat: 43.6, lng: 1.44, ring: 5 },
+  { name: "Provence-Alpes-Côte d'Azur", lat: 43.3, lng: 5.37, ring: 6 },
+];
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Shift scores up so the "good" scenario looks the part
+function applyScenario(item: HexagonDataItem, scenario: Scenario): HexagonDataItem {
+  const shift = (value: number) => (scenario === 'good' ? round(0.6 + 0.4 * value) : value);
+  const shiftOptional = (value: number | undefined) => (value === undefined ? value : shift(value));
+  return {
+    ...item,
+    score: shift(item.score),
+    temperature_normalized_score: shiftOptional(item.temperature_normalized_score),
+    latency_normalized_score: shiftOptional(item.latency_normalized_score),
+    connection_normalized_score: shiftOptional(item.connection_normalized_score),
+    ...(scenario === 'good' && { opposition: 'low' as const }),
+  };
+}
+
+// Pick regions the question is about; everything when nothing matches
+function regionsForMessage(message: string): Region[] {
+  const text = message.toLowerCase();
+  const named = REGIONS.filter((region) =>
+    text.includes(region.name.toLowerCase()) || text.includes(region.name.toLowerCase().split('-')[0])
+  );
+  if (named.length > 0) return named;
+  if (/temperature|cool|cold|climate/.test(text)) return REGIONS.filter((r) => r.lat > 47 || r.name === 'Alpes' || r.name === 'Massif Central');
+  if (/latency|connect|network|internet|grid|ixp/.test(text)) {
+    return REGIONS.filter((r) => IXPS.some((ixp) => distanceKm(r.lat, r.lng, ixp.lat, ixp.lng) < 300));
+  }
+  return REGIONS;
+}
+
+export function generateHexagonData(message: string, scenario: Scenario): HexagonDataMap {
+  if (scenario === 'empty') return {};
+
+  const hexagonData: HexagonDataMap = {};
+  for (const region of regionsForMessage(message)) {
+    for (const hex of gridDisk(latLngToCell(region.lat, region.lng, RESOLUTION), region.ring)) {
+      hexagonData[hex] = applyScenario(sampleCellMetrics(hex), scenario);
+    }
+  }
+  return hexagonData;
+}
+
+// Metrics for explicit cells, e.g. imported candidate sites
+export function scoreCells(cells: string[], scenario: Scenario): HexagonDataMap {
+  if (scenario === 'empty') return {};
+  return Object.fromEntries(cells.map((hex) => [hex, applyScenario(sampleCellMetrics(hex), scenario)]));
+}
+
+// Payload as sent over the wire. "mixed" breaks the contract here and there - a
+// bad optional field, an out-of-range score, an invalid H3 index - and "bad" breaks
+// it in every cell, so the routes' validation can be exercised. Other scenarios
+// send the data unchanged.
+export function toWirePayload(hexagonData: HexagonDataMap, scenario: Scenario): Record<string, unknown> {
+  if (scenario === 'bad') {
+    return Object.fromEntries(Object.entries(hexagonData).map(([hex, item]) => [hex, { ...item, score: 'high' }]));
+  }
+  if (scenario !== 'mixed') return hexagonData;
+
+  const entries = Object.entries(hexagonData).map(([hex, item], i): [string, unknown] => {
+    if (i % 10 === 3) return [hex, { ...item, latency_ms: 'n/a' }];          // field dropped
+    if (i % 10 === 7) return [hex, { ...item, opposition: 'unknown' }];      // field dropped
+    if (i % 25 === 11) return [hex, { ...item, score: round(1 + item.score) }]; // cell dropped
+    return [hex, item];
+  });
+  return Object.fromEntries([['not-an-h3-cell', { score: 0.5 }], ...entries]);
+}
+
+export function topCells(hexagonData: HexagonDataMap, count = 5): string[] {
+  return Object.entries(hexagonData)
+    .sort(([, a], [, b]) => (b.score ?? 0) - (a.score ?? 0))
+    .slice(0, count)
+    .map(([hex]) => hex);
+}
+
+export function describeAnswer(message: string, hexagonData: HexagonDataMap, scenario: Scenario): string {
+  const cells = Object.values(hexagonData);
+  if (cells.length === 0) {
+    return `## No matching locations\n\nThe mock backend found no cells for **"${message}"** (scenario \`${scenario}\`).`;
+  }
+
+  const mean = (values: (number | undefined)[]) => {
+    const defined = values.filter((v): v is number => v !== undefined);
+    return defined.reduce((sum, v) => sum + v, 0) / Math.max(1, defined.length);
+  };
+  const regions = regionsForMessage(message).map((r) => r.name);
+
+  return `## Mock analysis: ${message}
+
+Scored **${cells.length} cells** across ${regions.join(', ')} (scenario \`${scenario}\`).
+
+- **Average score**: ${(mean(cells.map((c) => c.score)) * 100).toFixed(0)}%
+- **Average temperature**: ${mean(cells.map((c) => c.avg_temperature)).toFixed(1)}°C
+- **Average latency**: ${mean(cells.map((c) => c.latency_ms)).toFixed(1)} ms
+- **High opposition**: ${cells.filter((c) => c.opposition === 'high').length} cells
+
+*Generated by the local mock backend - not real data.*`;
+}
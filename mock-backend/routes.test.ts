@@ -0,0 +1,210 @@
+// Integration tests: the /api/analyze and /api/research routes against the mock
+// backend, one scenario at a time. Runs offline with `npm test`.
+
+import { after, before, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'net';
+import { NextRequest } from 'next/server';
+import { readNdjson, StreamEvent } from '@/lib/streaming';
+import { Scenario } from './data';
+import { createMockBackend } from './app';
+
+type RouteModule = { POST: (request: NextRequest) => Promise<Response> };
+
+// Short enough to keep the suite fast, long enough for the mock to answer
+const TIMEOUT_MS = 500;
+const SLOW_MS = TIMEOUT_MS * 4;
+
+const backend = createMockBackend({ scenario: 'good', slowMs: SLOW_MS, tokenDelayMs: 0, logRequests: false });
+let backendUrl = '';
+const routes: Record<'analyze' | 'research', RouteModule> = {} as Record<'analyze' | 'research', RouteModule>;
+
+before(async () => {
+  await new Promise<void>((resolve) => backend.listen(0, resolve));
+  backendUrl = `http://localhost:${(backend.address() as AddressInfo).port}`;
+
+  // The routes read their configuration when first imported
+  process.env.BACKEND_API_URL = backendUrl;
+  process.env.BACKEND_TIMEOUT_MS = String(TIMEOUT_MS);
+  process.env.BACKEND_RETRIES = '0';
+  process.env.BACKEND_BREAKER_THRESHOLD = '1000';
+  routes.analyze = await import('@/app/api/analyze/route');
+  routes.research = await import('@/app/api/research/route');
+
+  // Fallbacks and contract errors are logged by the routes; keep the output readable
+  mock.method(console, 'warn', () => {});
+  mock.method(console, 'error', () => {});
+});
+
+after(() => {
+  mock.restoreAll();
+  backend.closeAllConnections();
+  backend.close();
+});
+
+async function setScenario(scenario: Scenario): Promise<void> {
+  const response = await fetch(`${backendUrl}/__scenario`, {
+    method: 'POST',
+    body: JSON.stringify({ scenario })
+  });
+  assert.equal(response.status, 200);
+}
+
+// Each test asks its own question so answers never come from the route cache
+let questionCount = 0;
+function question(topic: string): string {
+  questionCount++;
+  return `Where should a datacenter go near ${topic}? (#${questionCount})`;
+}
+
+function post(route: keyof typeof routes, body: unknown): Promise<Response> {
+  return routes[route].POST(new NextRequest(`http://localhost/api/${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body)
+  }));
+}
+
+async function readEvents(response: Response): Promise<StreamEvent<Record<string, unknown>>[]> {
+  const events: StreamEvent<Record<string, unknown>>[] = [];
+  await readNdjson<StreamEvent<Record<string, unknown>>>(response, (event) => events.push(event));
+  return events;
+}
+
+for (const route of ['analyze', 'research'] as const) {
+  describe(`/api/${route}`, () => {
+    test('rejects a request without a message', async () => {
+      const response = await post(route, { context: {} });
+      assert.equal(response.status, 400);
+    });
+
+    test('good: returns the backend answer, then serves it from the cache', async () => {
+      await setScenario('good');
+      const message = question('Paris');
+
+      const response = await post(route, { message });
+      assert.equal(response.status, 200);
+      const body = await response.json();
+      assert.equal(body.source, 'backend');
+      assert.equal(body.cache, 'miss');
+      assert.ok(Object.keys(body.hexagonData).length > 0);
+      assert.ok(body.highlighted.length > 0);
+      assert.equal(body.validationIssues, undefined);
+
+      const again = await post(route, { message });
+      assert.equal(again.headers.get('X-Cache'), 'HIT');
+    });
+
+    test('good: streams tokens, then the map payload', async () => {
+      await setScenario('good');
+
+      const events = await readEvents(await post(route, { message: question('Lyon'), stream: true }));
+      const tokens = events.filter((e) => e.type === 'token');
+      const data = events.find((e) => e.type === 'data');
+      assert.ok(tokens.length > 1);
+      assert.ok(data && data.type === 'data');
+      assert.equal(data.data.source, 'backend');
+      assert.ok(Object.keys(data.data.hexagonData as object).length > 0);
+      assert.deepEqual(events.at(-1), { type: 'done' });
+    });
+
+    test('empty: answers with no cells', async () => {
+      await setScenario('empty');
+
+      const response = await post(route, { message: question('Rennes') });
+      assert.equal(response.status, 200);
+      const body = await response.json();
+      assert.equal(body.source, 'backend');
+      assert.deepEqual(body.hexagonData, {});
+      assert.match(body.response, /No matching locations/);
+    });
+
+    test('mixed: keeps valid cells, drops bad fields and reports every issue', async () => {
+      await setScenario('mixed');
+
+      const response = await post(route, { message: question('Toulouse') });
+      assert.equal(response.status, 200);
+      const body = await response.json();
+      assert.equal(body.source, 'backend');
+      const cells: Record<string, Record<string, unknown>>[] = Object.values(body.hexagonData);
+      assert.ok(cells.length > 0);
+      assert.ok(cells.every((cell) => typeof cell.score === 'number' && cell.score >= 0 && cell.score <= 1));
+      assert.equal(body.hexagonData['not-an-h3-cell'], undefined);
+
+      const issues: { path: string; dropped?: string }[] = body.validationIssues;
+      assert.ok(issues.some((issue) => issue.dropped === 'field' && issue.path.endsWith('.latency_ms')));
+      assert.ok(issues.some((issue) => issue.dropped === 'field' && issue.path.endsWith('.opposition')));
+      assert.ok(issues.some((issue) => issue.dropped === 'cell' && issue.path.endsWith('.score')));
+      assert.ok(issues.some((issue) => issue.dropped === 'cell' && issue.path === 'hexagonData.not-an-h3-cell'));
+
+      // A cell with a bad latency keeps its other metrics
+      const withoutLatency = issues.find((issue) => issue.path.endsWith('.latency_ms'));
+      const hex = withoutLatency!.path.split('.')[1];
+      assert.equal(body.hexagonData[hex].latency_ms, undefined);
+      assert.equal(typeof body.hexagonData[hex].score, 'number');
+    });
+
+    test('mixed: streams the issues with the map payload', async () => {
+      await setScenario('mixed');
+
+      const events = await readEvents(await post(route, { message: question('Nantes'), stream: true }));
+      const data = events.find((e) => e.type === 'data');
+      assert.ok(data && data.type === 'data');
+      assert.equal(data.data.source, 'backend');
+      assert.ok((data.data.validationIssues as unknown[]).length > 0);
+      assert.deepEqual(events.at(-1), { type: 'done' });
+    });
+
+    test('bad: every cell breaks the contract - 502 with details, or an error event', async () => {
+      await setScenario('bad');
+
+      const response = await post(route, { message: question('Strasbourg') });
+      assert.equal(response.status, 502);
+      const body = await response.json();
+      assert.equal(body.error, 'Malformed backend response');
+      assert.ok(body.details.length > 0);
+      assert.ok(body.details.every((issue: { dropped?: string }) => issue.dropped === 'cell'));
+
+      const events = await readEvents(await post(route, { message: question('Metz'), stream: true }));
+      assert.ok(events.some((e) => e.type === 'error'));
+      assert.ok(!events.some((e) => e.type === 'data'));
+    });
+
+    test('malformed: a truncated body falls back to demo data', async () => {
+      await setScenario('malformed');
+
+      const response = await post(route, { message: question('Lille') });
+      assert.equal(response.status, 200);
+      const body = await response.json();
+      assert.equal(body.source, 'fallback');
+      assert.match(body.fallbackReason, /JSON/);
+    });
+
+    test('error: a backend 500 falls back to demo data with the reason', async () => {
+      await setScenario('error');
+
+      const response = await post(route, { message: question('Marseille') });
+      assert.equal(response.status, 200);
+      const body = await response.json();
+      assert.equal(body.source, 'fallback');
+      assert.match(body.fallbackReason, /500/);
+
+      const events = await readEvents(await post(route, { message: question('Nice'), stream: true }));
+      const data = events.find((e) => e.type === 'data');
+      assert.ok(data && data.type === 'data');
+      assert.equal(data.data.source, 'fallback');
+      assert.deepEqual(events.at(-1), { type: 'done' });
+    });
+
+    test('slow: times out and falls back instead of hanging', async () => {
+      await setScenario('slow');
+
+      const startedAt = Date.now();
+      const response = await post(route, { message: question('Bordeaux') });
+      const body = await response.json();
+      assert.equal(body.source, 'fallback');
+      assert.match(body.fallbackReason, /did not respond/);
+      assert.ok(Date.now() - startedAt < SLOW_MS);
+    });
+  });
+}
@@ -0,0 +1,26 @@
+// Local stand-in for the Python backend: implements POST /score and POST /information.
+//
+//   npm run mock-backend                     # listens on :8000, scenario "good"
+//   MOCK_SCENARIO=mixed npm run mock-backend
+//
+// The scenario can also be chosen per request with an `X-Mock-Scenario` header or
+// `?scenario=` query, or switched at runtime with POST /__scenario {"scenario": "slow"}.
+// Point the app at it with BACKEND_API_URL=http://localhost:8000 (the default).
+
+import { SCENARIOS } from './data';
+import { createMockBackend, parseScenario } from './app';
+
+const PORT = Number(process.env.MOCK_BACKEND_PORT || 8000);
+const SCENARIO = parseScenario(process.env.MOCK_SCENARIO) || 'good';
+
+const server = createMockBackend({
+  scenario: SCENARIO,
+  slowMs: Number(process.env.MOCK_SLOW_MS || 20000), // past the routes' default BACKEND_TIMEOUT_MS of 15s
+  tokenDelayMs: Number(process.env.MOCK_TOKEN_DELAY_MS || 15),
+  logRequests: true
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock backend listening on http://localhost:${PORT} (scenario: ${SCENARIO})`);
+  console.log(`Scenarios: ${SCENARIOS.join(', ')}`);
+});
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { backendCache } from '@/lib/cache';
+import { checkAdminAccess } from '@/lib/admin';
+
+// Cache statistics and the live entries, most recently used first
+export async function GET(request: NextRequest) {
+  const denied = checkAdminAccess(request);
+  if (denied) return denied;
+
+  return NextResponse.json({
+    stats: backendCache.stats(),
+    entries: backendCache.list()
+  });
+}
+
+// Purge one entry with ?key=..., or everything
+export async function DELETE(request: NextRequest) {
+  const denied = checkAdminAccess(request);
+  if (denied) return denied;
+
+  const key = request.nextUrl.searchParams.get('key');
+  if (key) {
+    if (!backendCache.delete(key)) {
+      return NextResponse.json({ error: 'No cache entry with that key' }, { status: 404 });
+    }
+    return NextResponse.json({ removed: 1 });
+  }
+
+  return NextResponse.json({ removed: backendCache.clear() });
+}
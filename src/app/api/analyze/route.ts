@@ -1,4 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Bounds, filterRecordToBounds, isCellInBounds, isValidBounds } from '@/lib/viewport';
+import { NDJSON_CONTENT_TYPE, createNdjsonResponse, isNdjsonResponse, readNdjson } from '@/lib/streaming';
+import {
+  BackendAnswer,
+  BackendContractError,
+  HexagonDataMap,
+  ValidationIssue,
+  ValidationResult,
+  parseBackendAnswer,
+  summarizeIssues
+} from '@/lib/hexagons';
+import { describeBackendError, resilientFetch } from '@/lib/resilience';
+import { CacheStatus, backendCache, createCacheKey } from '@/lib/cache';
+import { AreaContext, parseAreaContext } from '@/lib/areas';
 
 // Backend API types
 type ScoreRequest = {
@@ -15,76 +29,68 @@ type CurrentView = {
   lat: number;
   lng: number;
   zoom: number;
+  bounds?: Bounds; // [west, south, east, north]
 };
 
 type Context = {
-  currentView: CurrentView;
+  currentView?: CurrentView;
+  limitToView?: boolean;
+  area?: AreaContext; // cells the question is scoped to
 };
 
 type InformationRequest = {
   message: string;
   context?: Context;
+  stream?: boolean;
 };
 
-type HexagonDataItem = {
-  score: number;      // 0-1 for color mapping
-  connection_points?: number;
-  latency_ms?: number;
-  avg_temperature?: number;
-  connection_normalized_score?: number;
-  latency_normalized_score?: number;
-  temperature_normalized_score?: number;
-  opposition?: "low" | "medium" | "high";
-};
-
-type InformationResponse = {
-  response: string;
-  hexagonData?: Record<string, HexagonDataItem>;
-  highlighted?: string[];
+// One line of a streamed backend answer: markdown tokens, then the final payload.
+// Payload fields are validated once the stream ends.
+type InformationStreamLine = {
+  token?: string;
+  response?: string;
+  hexagonData?: unknown;
+  highlighted?: unknown;
 };
 
 // Frontend types
 type AnalyzeRequest = {
   message: string;
+  stream?: boolean; // answer as NDJSON events instead of a single JSON body
   context?: {
-    currentView?: {
-      lat: number;
-      lng: number;
-      zoom: number;
-    };
-  };
-};
-
-type HexagonData = {
-  [h3Index: string]: {
-    score: number;      // 0-1 for color mapping
-    connection_points?: number;
-    latency_ms?: number;
-    avg_temperature?: number;
-    connection_normalized_score?: number;
-    latency_normalized_score?: number;
-    temperature_normalized_score?: number;
-    opposition?: "low" | "medium" | "high";
+    currentView?: CurrentView;
+    limitToView?: boolean;
+    area?: unknown;
   };
 };
 
 type AnalyzeResponse = {
   response: string;
-  hexagonData: HexagonData;
+  hexagonData: HexagonDataMap;
   highlighted?: string[];
+  validationIssues?: ValidationIssue[]; // cells the backend sent that broke the contract
+  cache?: CacheStatus; // whether the backend answer came from the response cache
+  source: AnswerSource;
+  fallbackReason?: string; // why the backend could not answer, when source is 'fallback'
 };
 
+// Final `data` event of a streamed answer
+type AnalyzeStreamData = Omit<AnalyzeResponse, 'response'>;
+
+// 'fallback' answers are canned demo data, never real analysis
+type AnswerSource = 'backend' | 'fallback';
+
 // API configuration
 const API_BASE_URL = process.env.BACKEND_API_URL || 'http://localhost:8000';
 
-async function callBackendAPI(message: string, context?: Context): Promise<InformationResponse> {
+async function callBackendAPI(message: string, context?: Context): Promise<ValidationResult<BackendAnswer>> {
   const requestBody: InformationRequest = {
     message,
     ...(context && { context })
   };
 
   try {
-    const response = await fetch(`${API_BASE_URL}/score`, {
+    const response = await resilientFetch(`${API_BASE_URL}/score`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -96,16 +102,173 @@ async function callBackendAPI(message: string, context?: Context): Promise<Infor
       throw new Error(`Backend API error: ${response.status} ${response.statusText}`);
     }
 
-    const data: InformationResponse = await response.json();
-    return data;
+    return parseBackendAnswer(await response.json());
   } catch (error) {
     console.error('Error calling backend API:', error);
     throw error;
   }
 }
 
+// Ask the backend to stream its answer, forwarding tokens as they arrive.
+// A backend that only answers with plain JSON is forwarded as one token.
+async function streamBackendAPI(
+  message: string,
+  context: Context | undefined,
+  onToken: (token: string) => void,
+  signal?: AbortSignal
+): Promise<ValidationResult<BackendAnswer>> {
+  const requestBody: InformationRequest = {
+    message,
+    stream: true,
+    ...(context && { context })
+  };
+
+  const response = await resilientFetch(`${API_BASE_URL}/score`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': `${NDJSON_CONTENT_TYPE}, application/json`,
+    },
+    body: JSON.stringify(requestBody),
+  }, { signal });
+
+  if (!response.ok) {
+    throw new Error(`Backend API error: ${response.status} ${response.statusText}`);
+  }
+
+  if (!isNdjsonResponse(response)) {
+    const answer = parseBackendAnswer(await response.json());
+    onToken(answer.data.response);
+    return answer;
+  }
+
+  const result: InformationStreamLine & { response: string } = { response: '' };
+  await readNdjson<InformationStreamLine>(response, (line) => {
+    if (typeof line.token === 'string') {
+      result.response += line.token;
+      onToken(line.token);
+    }
+    if (typeof line.response === 'string' && !result.response) {
+      result.response = line.response;
+      onToken(line.response);
+    }
+    if (line.hexagonData) result.hexagonData = line.hexagonData;
+    if (line.highlighted) result.highlighted = line.highlighted;
+  });
+  return parseBackendAnswer(result);
+}
+
+// Frontend response built from a validated backend answer
+function toAnalyzeResponse({ data, issues }: ValidationResult<BackendAnswer>): AnalyzeResponse {
+  if (issues.length > 0) {
+    console.warn(`Backend sent ${issues.length} invalid hexagon entries:`, summarizeIssues(issues, 5));
+  }
+
+  return {
+    response: data.response,
+    source: 'backend',
+    hexagonData: data.hexagonData,
+    highlighted: data.highlighted ? Object.keys(data.highlighted) : undefined,
+    ...(issues.length > 0 && { validationIssues: summarizeIssues(issues) })
+  };
+}
+
+function contractErrorBody(error: BackendContractError) {
+  return {
+    error: 'Malformed backend response',
+    message: error.message,
+    details: summarizeIssues(error.issues)
+  };
+}
+
+function streamAnalysis(message: string, context: Context | undefined, signal: AbortSignal): Response {
+  return createNdjsonResponse<AnalyzeStreamData>(async (emit) => {
+    let hasStreamedTokens = false;
+    const cacheKey = createCacheKey('score', message, context);
+
+    // A cached answer is replayed as a single token
+    const cached = backendCache.get(cacheKey);
+    if (cached) {
+      const { response, hexagonData, highlighted, validationIssues, source } = limitResponseToView(toAnalyzeResponse(cached), context);
+      emit({ type: 'token', content: response });
+      emit({ type: 'data', data: { hexagonData, highlighted, validationIssues, source, cache: 'hit' } });
+      emit({ type: 'done' });
+      return;
+    }
+
+    try {
+      const backendResponse = await streamBackendAPI(message, context, (token) => {
+        hasStreamedTokens = true;
+        emit({ type: 'token', content: token });
+      }, signal);
+      backendCache.set(cacheKey, backendResponse, `score: ${message}`);
+
+      const { hexagonData, highlighted, validationIssues, source } = limitResponseToView(toAnalyzeResponse(backendResponse), context);
+      emit({ type: 'data', data: { hexagonData, highlighted, validationIssues, source, cache: 'miss' } });
+    } catch (apiError) {
+      if (signal.aborted) return;
+
+      // The backend answered but broke the contract - report it rather than faking an answer
+      if (apiError instanceof BackendContractError) {
+        console.error('Backend contract violation:', apiError.message, summarizeIssues(apiError.issues, 5));
+        emit({ type: 'error', message: `${apiError.message} (${apiError.issues.length} issues)` });
+        return;
+      }
+
+      // Don't splice canned text onto a half-streamed answer
+      if (hasStreamedTokens) {
+        console.error('Backend stream interrupted:', apiError);
+        emit({ type: 'error', message: 'The analysis stream was interrupted' });
+        return;
+      }
+
+      console.warn('Backend API unavailable, using fallback response:', apiError);
+      const { response, ...data } = limitResponseToView(generateFallbackResponse(message, describeBackendError(apiError)), context);
+      emit({ type: 'token', content: response });
+      emit({ type: 'data', data });
+    }
+
+    emit({ type: 'done' });
+  });
+}
+
+function parseContext(context: AnalyzeRequest['context']): Context | undefined {
+  const view = context?.currentView;
+  const currentView = view && typeof view.lat === 'number' && typeof view.lng === 'number' && typeof view.zoom === 'number'
+    ? view
+    : undefined;
+  const area = parseAreaContext(context?.area);
+  if (!currentView && !area) return undefined;
+
+  return {
+    ...(currentView && {
+      currentView: {
+        lat: currentView.lat,
+        lng: currentView.lng,
+        zoom: currentView.zoom,
+        ...(isValidBounds(currentView.bounds) && { bounds: currentView.bounds })
+      },
+      limitToView: context?.limitToView === true
+    }),
+    ...(area && { area })
+  };
+}
+
+// Drop cells outside the visible area when the user asked to stay within it
+function limitResponseToView(data: AnalyzeResponse, context?: Context): AnalyzeResponse {
+  const bounds = context?.currentView?.bounds;
+  if (!context?.limitToView || !bounds) return data;
+
+  const hexagonData = filterRecordToBounds(data.hexagonData, bounds);
+  return {
+    ...data,
+    hexagonData,
+    highlighted: data.highlighted?.filter((h3Index) => isCellInBounds(h3Index, bounds))
+  };
+}
+
 // Fallback function for when backend is unavailable
-function generateFallbackResponse(message: string): AnalyzeResponse {
+function generateFallbackResponse(message: string, reason: string): AnalyzeResponse {
   const lowerMessage = message.toLowerCase();
   
   let response: string;
@@ -234,7 +397,9 @@ Consider **site-specific analysis** for detailed deployment planning.`;
   return {
     response,
     hexagonData: sampleHexagonData,
-    highlighted: ['871fb4662ffffff']
+    highlighted: ['871fb4662ffffff'],
+    source: 'fallback',
+    fallbackReason: reason
   };
 }
 
@@ -250,28 +415,39 @@ export async function POST(request: NextRequest) {
     }
 
     // Prepare context from request if available
-    const context: Context | undefined = body.context?.currentView ? {
-      currentView: body.context.currentView
-    } : undefined;
+    const context = parseContext(body.context);
+
+    if (body.stream === true) {
+      return streamAnalysis(body.message, context, request.signal);
+    }
 
     try {
+      // Same question, same view: answer from the cache
+      const cacheKey = createCacheKey('score', body.message, context);
+      const cached = backendCache.get(cacheKey);
+      const cacheStatus: CacheStatus = cached ? 'hit' : 'miss';
+
       // Try to call the backend API first
-      const backendResponse = await callBackendAPI(body.message, context);
+      const backendResponse = cached || await callBackendAPI(body.message, context);
+      if (!cached) backendCache.set(cacheKey, backendResponse, `score: ${body.message}`);
       
       // Transform backend response to frontend format
-      const responseData: AnalyzeResponse = {
-        response: backendResponse.response,
-        hexagonData: backendResponse.hexagonData || {},
-        highlighted: backendResponse.highlighted
-      };
+      const responseData = toAnalyzeResponse(backendResponse);
       
-      return NextResponse.json(responseData);
+      return NextResponse.json(
+        { ...limitResponseToView(responseData, context), cache: cacheStatus },
+        { headers: { 'X-Cache': cacheStatus.toUpperCase() } }
+      );
     } catch (apiError) {
+      if (apiError instanceof BackendContractError) {
+        return NextResponse.json(contractErrorBody(apiError), { status: 502 });
+      }
+
       console.warn('Backend API unavailable, using fallback response:', apiError);
       
       // Use fallback response when backend is unavailable
-      const fallbackResponse = generateFallbackResponse(body.message);
-      return NextResponse.json(fallbackResponse);
+      const fallbackResponse = generateFallbackResponse(body.message, describeBackendError(apiError));
+      return NextResponse.json(limitResponseToView(fallbackResponse, context));
     }
   } catch (error) {
     console.error('Error in analyze API:', error);
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { appendFeedback, readFeedbackFile, validateFeedback } from '@/lib/feedback';
+import { NDJSON_CONTENT_TYPE } from '@/lib/streaming';
+import { checkAdminAccess } from '@/lib/admin';
+
+// Record a rating on a chat answer
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Request body must be valid JSON' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const feedback = validateFeedback(body);
+
+    if (typeof feedback === 'string') {
+      return NextResponse.json(
+        { error: feedback },
+        { status: 400 }
+      );
+    }
+
+    const record = await appendFeedback(feedback);
+    return NextResponse.json({ id: record.id, createdAt: record.createdAt }, { status: 201 });
+  } catch (error) {
+    console.error('Error in feedback API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// Export every recorded rating as NDJSON; prompts and answers are in there,
+// so this is admin-only
+export async function GET(request: NextRequest) {
+  const denied = checkAdminAccess(request);
+  if (denied) return denied;
+
+  try {
+    const content = await readFeedbackFile();
+    return new Response(content, {
+      headers: {
+        'Content-Type': NDJSON_CONTENT_TYPE,
+        'Content-Disposition': 'attachment; filename="feedback.jsonl"',
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error) {
+    console.error('Error exporting feedback:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,83 +1,92 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Bounds, filterRecordToBounds, isCellInBounds, isValidBounds } from '@/lib/viewport';
+import { NDJSON_CONTENT_TYPE, createNdjsonResponse, isNdjsonResponse, readNdjson } from '@/lib/streaming';
+import {
+  BackendAnswer,
+  BackendContractError,
+  HexagonDataMap,
+  ValidationIssue,
+  ValidationResult,
+  parseBackendAnswer,
+  summarizeIssues
+} from '@/lib/hexagons';
+import { describeBackendError, resilientFetch } from '@/lib/resilience';
+import { CacheStatus, backendCache, createCacheKey } from '@/lib/cache';
+import { AreaContext, parseAreaContext } from '@/lib/areas';
 
 // Backend API types
 type CurrentView = {
   lat: number;
   lng: number;
   zoom: number;
+  bounds?: Bounds; // [west, south, east, north]
 };
 
 type Context = {
-  currentView: CurrentView;
+  currentView?: CurrentView;
+  limitToView?: boolean;
+  area?: AreaContext; // cells the question is scoped to
 };
 
 type InformationRequest = {
   message: string;
   additional_context?: string;
   highlighted?: Record<string, number>;
+  context?: Context;
+  stream?: boolean;
 };
 
-type HexagonDataItem = {
-  score: number;
-  connection_points?: number;
-  latency_ms?: number;
-  avg_temperature?: number;
-  connection_normalized_score?: number;
-  latency_normalized_score?: number;
-  temperature_normalized_score?: number;
-  opposition?: "low" | "medium" | "high";
-};
-
-type InformationResponse = {
-  response: string;
-  hexagonData?: Record<string, HexagonDataItem>;
-  highlighted?: Record<string, number>;
+// One line of a streamed backend answer: markdown tokens, then the final payload.
+// Payload fields are validated once the stream ends.
+type InformationStreamLine = {
+  token?: string;
+  response?: string;
+  hexagonData?: unknown;
+  highlighted?: unknown;
 };
 
 // Frontend types
 type ResearchRequest = {
   message: string;
+  stream?: boolean; // answer as NDJSON events instead of a single JSON body
   previousMessage?: string;
   context?: {
-    currentView?: {
-      lat: number;
-      lng: number;
-      zoom: number;
-    };
-  };
-};
-
-type HexagonData = {
-  [h3Index: string]: {
-    score: number;
-    connection_points?: number;
-    latency_ms?: number;
-    avg_temperature?: number;
-    connection_normalized_score?: number;
-    latency_normalized_score?: number;
-    temperature_normalized_score?: number;
-    opposition?: "low" | "medium" | "high";
+    currentView?: CurrentView;
+    limitToView?: boolean;
+    area?: unknown;
   };
 };
 
 type ResearchResponse = {
   response: string;
-  hexagonData: HexagonData;
+  hexagonData: HexagonDataMap;
   highlighted?: string[];
+  highlightWeights?: Record<string, number>; // emphasis per highlighted cell
+  validationIssues?: ValidationIssue[]; // cells the backend sent that broke the contract
+  cache?: CacheStatus; // whether the backend answer came from the response cache
+  source: AnswerSource;
+  fallbackReason?: string; // why the backend could not answer, when source is 'fallback'
 };
 
+// Final `data` event of a streamed answer
+type ResearchStreamData = Omit<ResearchResponse, 'response'>;
+
+// 'fallback' answers are canned demo data, never real analysis
+type AnswerSource = 'backend' | 'fallback';
+
 // API configuration
 const API_BASE_URL = process.env.BACKEND_API_URL || 'http://localhost:8000';
 
-async function callBackendResearchAPI(message: string, previousMessage?: string): Promise<InformationResponse> {
+async function callBackendResearchAPI(message: string, previousMessage?: string, context?: Context): Promise<ValidationResult<BackendAnswer>> {
   const requestBody: InformationRequest = {
     message,
     additional_context: previousMessage || undefined,
-    highlighted: {} // Can be populated with current highlighted hexagons if needed
+    highlighted: {}, // Can be populated with current highlighted hexagons if needed
+    ...(context && { context })
   };
 
   try {
-    const response = await fetch(`${API_BASE_URL}/information`, {
+    const response = await resilientFetch(`${API_BASE_URL}/information`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -89,16 +98,183 @@ async function callBackendResearchAPI(message: string, previousMessage?: string)
       throw new Error(`Backend API error: ${response.status} ${response.statusText}`);
     }
 
-    const data: InformationResponse = await response.json();
-    return data;
+    return parseBackendAnswer(await response.json());
   } catch (error) {
     console.error('Error calling backend research API:', error);
     throw error;
   }
 }
 
+// Ask the backend to stream its answer, forwarding tokens as they arrive.
+// A backend that only answers with plain JSON is forwarded as one token.
+async function streamBackendResearchAPI(
+  message: string,
+  previousMessage: string | undefined,
+  context: Context | undefined,
+  onToken: (token: string) => void,
+  signal?: AbortSignal
+): Promise<ValidationResult<BackendAnswer>> {
+  const requestBody: InformationRequest = {
+    message,
+    additional_context: previousMessage || undefined,
+    highlighted: {},
+    stream: true,
+    ...(context && { context })
+  };
+
+  const response = await resilientFetch(`${API_BASE_URL}/information`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': `${NDJSON_CONTENT_TYPE}, application/json`,
+    },
+    body: JSON.stringify(requestBody),
+  }, { signal });
+
+  if (!response.ok) {
+    throw new Error(`Backend API error: ${response.status} ${response.statusText}`);
+  }
+
+  if (!isNdjsonResponse(response)) {
+    const answer = parseBackendAnswer(await response.json());
+    onToken(answer.data.response);
+    return answer;
+  }
+
+  const result: InformationStreamLine & { response: string } = { response: '' };
+  await readNdjson<InformationStreamLine>(response, (line) => {
+    if (typeof line.token === 'string') {
+      result.response += line.token;
+      onToken(line.token);
+    }
+    if (typeof line.response === 'string' && !result.response) {
+      result.response = line.response;
+      onToken(line.response);
+    }
+    if (line.hexagonData) result.hexagonData = line.hexagonData;
+    if (line.highlighted) result.highlighted = line.highlighted;
+  });
+  return parseBackendAnswer(result);
+}
+
+// Frontend response built from a validated backend answer
+function toResearchResponse({ data, issues }: ValidationResult<BackendAnswer>): ResearchResponse {
+  if (issues.length > 0) {
+    console.warn(`Backend sent ${issues.length} invalid hexagon entries:`, summarizeIssues(issues, 5));
+  }
+
+  return {
+    response: data.response,
+    source: 'backend',
+    hexagonData: data.hexagonData,
+    highlighted: data.highlighted ? Object.keys(data.highlighted) : undefined,
+    highlightWeights: data.highlighted,
+    ...(issues.length > 0 && { validationIssues: summarizeIssues(issues) })
+  };
+}
+
+function contractErrorBody(error: BackendContractError) {
+  return {
+    error: 'Malformed backend response',
+    message: error.message,
+    details: summarizeIssues(error.issues)
+  };
+}
+
+function streamResearch(
+  message: string,
+  previousMessage: string | undefined,
+  context: Context | undefined,
+  signal: AbortSignal
+): Response {
+  return createNdjsonResponse<ResearchStreamData>(async (emit) => {
+    let hasStreamedTokens = false;
+    const cacheKey = createCacheKey('information', message, context, previousMessage);
+
+    // A cached answer is replayed as a single token
+    const cached = backendCache.get(cacheKey);
+    if (cached) {
+      const { response, hexagonData, highlighted, highlightWeights, validationIssues, source } = limitResponseToView(toResearchResponse(cached), context);
+      emit({ type: 'token', content: response });
+      emit({ type: 'data', data: { hexagonData, highlighted, highlightWeights, validationIssues, source, cache: 'hit' } });
+      emit({ type: 'done' });
+      return;
+    }
+
+    try {
+      const backendResponse = await streamBackendResearchAPI(message, previousMessage, context, (token) => {
+        hasStreamedTokens = true;
+        emit({ type: 'token', content: token });
+      }, signal);
+      backendCache.set(cacheKey, backendResponse, `information: ${message}`);
+
+      const { hexagonData, highlighted, highlightWeights, validationIssues, source } = limitResponseToView(toResearchResponse(backendResponse), context);
+      emit({ type: 'data', data: { hexagonData, highlighted, highlightWeights, validationIssues, source, cache: 'miss' } });
+    } catch (apiError) {
+      if (signal.aborted) return;
+
+      // The backend answered but broke the contract - report it rather than faking an answer
+      if (apiError instanceof BackendContractError) {
+        console.error('Backend contract violation:', apiError.message, summarizeIssues(apiError.issues, 5));
+        emit({ type: 'error', message: `${apiError.message} (${apiError.issues.length} issues)` });
+        return;
+      }
+
+      // Don't splice canned text onto a half-streamed answer
+      if (hasStreamedTokens) {
+        console.error('Backend research stream interrupted:', apiError);
+        emit({ type: 'error', message: 'The research stream was interrupted' });
+        return;
+      }
+
+      console.warn('Backend research API unavailable, using fallback response:', apiError);
+      const { response, ...data } = limitResponseToView(generateResearchFallback(message, describeBackendError(apiError)), context);
+      emit({ type: 'token', content: response });
+      emit({ type: 'data', data });
+    }
+
+    emit({ type: 'done' });
+  });
+}
+
+function parseContext(context: ResearchRequest['context']): Context | undefined {
+  const view = context?.currentView;
+  const currentView = view && typeof view.lat === 'number' && typeof view.lng === 'number' && typeof view.zoom === 'number'
+    ? view
+    : undefined;
+  const area = parseAreaContext(context?.area);
+  if (!currentView && !area) return undefined;
+
+  return {
+    ...(currentView && {
+      currentView: {
+        lat: currentView.lat,
+        lng: currentView.lng,
+        zoom: currentView.zoom,
+        ...(isValidBounds(currentView.bounds) && { bounds: currentView.bounds })
+      },
+      limitToView: context?.limitToView === true
+    }),
+    ...(area && { area })
+  };
+}
+
+// Drop cells outside the visible area when the user asked to stay within it
+function limitResponseToView(data: ResearchResponse, context?: Context): ResearchResponse {
+  const bounds = context?.currentView?.bounds;
+  if (!context?.limitToView || !bounds) return data;
+
+  const hexagonData = filterRecordToBounds(data.hexagonData, bounds);
+  return {
+    ...data,
+    hexagonData,
+    highlighted: data.highlighted?.filter((h3Index) => isCellInBounds(h3Index, bounds)),
+    highlightWeights: data.highlightWeights && filterRecordToBounds(data.highlightWeights, bounds)
+  };
+}
+
 // Fallback function for when backend is unavailable
-function generateResearchFallback(message: string): ResearchResponse {
+function generateResearchFallback(message: string, reason: string): ResearchResponse {
   const lowerMessage = message.toLowerCase();
   
   let response: string;
@@ -188,7 +364,9 @@ function generateResearchFallback(message: string): ResearchResponse {
   return {
     response,
     hexagonData: sampleHexagonData,
-    highlighted: ['871fb4662ffffff']
+    highlighted: ['871fb4662ffffff'],
+    source: 'fallback',
+    fallbackReason: reason
   };
 }
 
@@ -203,24 +381,40 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Prepare context from request if available
+    const context = parseContext(body.context);
+
+    if (body.stream === true) {
+      return streamResearch(body.message, body.previousMessage, context, request.signal);
+    }
+
     try {
+      // Same question, view and conversation context: answer from the cache
+      const cacheKey = createCacheKey('information', body.message, context, body.previousMessage);
+      const cached = backendCache.get(cacheKey);
+      const cacheStatus: CacheStatus = cached ? 'hit' : 'miss';
+
       // Try to call the backend research API first
-      const backendResponse = await callBackendResearchAPI(body.message, body.previousMessage);
+      const backendResponse = cached || await callBackendResearchAPI(body.message, body.previousMessage, context);
+      if (!cached) backendCache.set(cacheKey, backendResponse, `information: ${body.message}`);
       
       // Transform backend response to frontend format
-      const responseData: ResearchResponse = {
-        response: backendResponse.response,
-        hexagonData: backendResponse.hexagonData || {},
-        highlighted: backendResponse.highlighted ? Object.keys(backendResponse.highlighted) : undefined
-      };
+      const responseData = toResearchResponse(backendResponse);
       
-      return NextResponse.json(responseData);
+      return NextResponse.json(
+        { ...limitResponseToView(responseData, context), cache: cacheStatus },
+        { headers: { 'X-Cache': cacheStatus.toUpperCase() } }
+      );
     } catch (apiError) {
+      if (apiError instanceof BackendContractError) {
+        return NextResponse.json(contractErrorBody(apiError), { status: 502 });
+      }
+
       console.warn('Backend research API unavailable, using fallback response:', apiError);
       
       // Use fallback response when backend is unavailable
-      const fallbackResponse = generateResearchFallback(body.message);
-      return NextResponse.json(fallbackResponse);
+      const fallbackResponse = generateResearchFallback(body.message, describeBackendError(apiError));
+      return NextResponse.json(limitResponseToView(fallbackResponse, context));
     }
   } catch (error) {
     console.error('Error in research API:', error);
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  BackendContractError,
+  HexagonDataMap,
+  ValidationIssue,
+  isValidHexagonId,
+  parseBackendAnswer,
+  summarizeIssues
+} from '@/lib/hexagons';
+import { describeBackendError, resilientFetch } from '@/lib/resilience';
+import { MAX_SITE_CELLS } from '@/lib/sites';
+
+// Backend API types
+type ScoreCellsRequest = {
+  message: string;
+  cells: string[];
+};
+
+// Frontend types
+type SitesRequest = {
+  cells: string[];
+};
+
+type SitesResponse = {
+  hexagonData: HexagonDataMap;
+  missing: string[]; // requested cells the backend returned no metrics for
+  validationIssues?: ValidationIssue[];
+};
+
+// API configuration
+const API_BASE_URL = process.env.BACKEND_API_URL || 'http://localhost:8000';
+
+// Score explicit cells with the same /score endpoint used for analysis
+async function callBackendScoreCells(cells: string[]) {
+  const requestBody: ScoreCellsRequest = {
+    message: 'Score the provided candidate sites',
+    cells
+  };
+
+  try {
+    const response = await resilientFetch(`${API_BASE_URL}/score`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(requestBody),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Backend API error: ${response.status} ${response.statusText}`);
+    }
+
+    return parseBackendAnswer(await response.json());
+  } catch (error) {
+    console.error('Error calling backend score API for sites:', error);
+    throw error;
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: SitesRequest = await request.json();
+
+    if (!Array.isArray(body.cells) || body.cells.length === 0) {
+      return NextResponse.json(
+        { error: 'Expected a non-empty list of H3 cells' },
+        { status: 400 }
+      );
+    }
+
+    const cells = Array.from(new Set(body.cells));
+    if (cells.length > MAX_SITE_CELLS) {
+      return NextResponse.json(
+        { error: `Too many cells: ${cells.length} (limit ${MAX_SITE_CELLS})` },
+        { status: 413 }
+      );
+    }
+
+    const invalid = cells.filter((cell) => !isValidHexagonId(cell));
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        {
+          error: 'Invalid H3 cells',
+          details: summarizeIssues(invalid.map((cell) => ({ path: 'cells', message: 'Invalid H3 index', value: cell })))
+        },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const { data, issues } = await callBackendScoreCells(cells);
+
+      // Only return metrics for the cells that were asked for
+      const hexagonData: HexagonDataMap = {};
+      for (const cell of cells) {
+        if (data.hexagonData[cell]) hexagonData[cell] = data.hexagonData[cell];
+      }
+
+      const responseData: SitesResponse = {
+        hexagonData,
+        missing: cells.filter((cell) => !hexagonData[cell]),
+        ...(issues.length > 0 && { validationIssues: summarizeIssues(issues) })
+      };
+      return NextResponse.json(responseData);
+    } catch (apiError) {
+      if (apiError instanceof BackendContractError) {
+        return NextResponse.json(
+          { error: 'Malformed backend response', message: apiError.message, details: summarizeIssues(apiError.issues) },
+          { status: 502 }
+        );
+      }
+
+      // No canned numbers here - scoring your own sites with fake data would be misleading
+      return NextResponse.json(
+        { error: 'Scoring backend unavailable', message: describeBackendError(apiError) },
+        { status: 503 }
+      );
+    }
+  } catch (error) {
+    console.error('Error in sites API:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import {
+  AggregationConfig,
+  AggregationMethod,
+  NUMERIC_METRICS,
+  NumericMetric,
+  OppositionAggregation,
+  methodsForMetric,
+} from '@/lib/aggregation';
+
+interface AggregationPanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  config: AggregationConfig;
+  onConfigChange: (config: AggregationConfig) => void;
+  resolution: number | null; // resolution cells are rolled up to, null when showing source cells
+}
+
+const METRIC_LABELS: Record<NumericMetric, string> = {
+  score: 'Score',
+  connection_points: 'Connection points',
+  latency_ms: 'Latency (ms)',
+  avg_temperature: 'Temperature (°C)',
+  connection_normalized_score: 'Connection score',
+  latency_normalized_score: 'Latency score',
+  temperature_normalized_score: 'Temperature score',
+};
+
+const OPPOSITION_METHODS: OppositionAggregation[] = ['worst', 'majority', 'best'];
+
+export default function AggregationPanel({
+  enabled,
+  onEnabledChange,
+  config,
+  onConfigChange,
+  resolution
+}: AggregationPanelProps) {
+  return (
+    <div className="border-t border-slate-700 pt-3">
+      <label className="flex items-center justify-between gap-3 text-sm font-medium text-slate-300 cursor-pointer">
+        <span>Aggregate by zoom</span>
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onEnabledChange(e.target.checked)}
+          className="accent-slate-400"
+        />
+      </label>
+      <div className="text-xs text-slate-500 mt-1">
+        {!enabled ? 'Showing source cells' : resolution === null ? 'Showing source cells at this zoom' : `Rolled up to resolution ${resolution}`}
+      </div>
+
+      {enabled && (
+        <details className="mt-2 text-xs">
+          <summary className="cursor-pointer text-slate-400 hover:text-slate-300">Aggregation per metric</summary>
+          <div className="mt-2 space-y-1">
+            {NUMERIC_METRICS.map((metric) => (
+              <div key={metric} className="flex items-center justify-between gap-3">
+                <span className="text-slate-400">{METRIC_LABELS[metric]}</span>
+                <select
+                  value={config.metrics[metric]}
+                  onChange={(e) => onConfigChange({
+                    ...config,
+                    metrics: { ...config.metrics, [metric]: e.target.value as AggregationMethod }
+                  })}
+                  className="bg-slate-800 text-slate-200 rounded px-1 py-0.5 border border-slate-700"
+                >
+                  {methodsForMetric(metric).map((method) => (
+                    <option key={method} value={method}>{method}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-slate-400">Opposition</span>
+              <select
+                value={config.opposition}
+                onChange={(e) => onConfigChange({ ...config, opposition: e.target.value as OppositionAggregation })}
+                className="bg-slate-800 text-slate-200 rounded px-1 py-0.5 border border-slate-700"
+              >
+                {OPPOSITION_METHODS.map((method) => (
+                  <option key={method} value={method}>{method}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+        </details>
+      )}
+    </div>
+  );
+}
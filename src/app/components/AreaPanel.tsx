@@ -0,0 +1,153 @@
+'use client';
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { AREA_KINDS, AreaKind, AreaOfInterest, SavedArea, describeArea } from '@/lib/areas';
+
+interface AreaPanelProps {
+  area: AreaOfInterest | null;
+  drawMode: AreaKind | null;
+  onDrawModeChange: (mode: AreaKind | null) => void;
+  draftPointCount: number;     // polygon points placed so far
+  onFinishPolygon: () => void;
+  onClear: () => void;
+  savedAreas: SavedArea[];
+  onSave: (name: string) => void;
+  onApplySaved: (saved: SavedArea) => void;
+  onDeleteSaved: (name: string) => void;
+  insideCount: number;         // cells on the map inside the area
+  totalCount: number;
+}
+
+const DRAW_HINTS: Record<AreaKind, string> = {
+  polygon: 'Click to add points, then click the first point or press Enter. Esc cancels.',
+  rectangle: 'Click two opposite corners. Esc cancels.',
+  circle: 'Click the center, then a point on the edge. Esc cancels.'
+};
+
+export default function AreaPanel({
+  area,
+  drawMode,
+  onDrawModeChange,
+  draftPointCount,
+  onFinishPolygon,
+  onClear,
+  savedAreas,
+  onSave,
+  onApplySaved,
+  onDeleteSaved,
+  insideCount,
+  totalCount
+}: AreaPanelProps) {
+  const [name, setName] = useState('');
+
+  const save = () => {
+    if (!name.trim()) return;
+    onSave(name);
+    setName('');
+  };
+
+  return (
+    <div className="border-t border-slate-700 pt-3">
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <div className="text-sm font-medium text-slate-300">Area of Interest</div>
+        {area && (
+          <button
+            onClick={onClear}
+            className="text-xs text-slate-400 hover:text-slate-200 transition-colors"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-2 text-xs max-w-[220px]">
+        <div className="flex gap-1">
+          {AREA_KINDS.map((kind) => (
+            <button
+              key={kind}
+              onClick={() => onDrawModeChange(drawMode === kind ? null : kind)}
+              className={`flex-1 px-2 py-1 rounded capitalize transition-colors ${
+                drawMode === kind
+                  ? 'bg-slate-700 text-slate-200'
+                  : 'text-slate-400 hover:text-slate-300 hover:bg-slate-800/50'
+              }`}
+            >
+              {kind}
+            </button>
+          ))}
+        </div>
+
+        {drawMode && (
+          <div className="text-sky-300">
+            {DRAW_HINTS[drawMode]}
+            {drawMode === 'polygon' && draftPointCount >= 3 && (
+              <button onClick={onFinishPolygon} className="block mt-1 text-slate-200 underline hover:text-white">
+                Finish ({draftPointCount} points)
+              </button>
+            )}
+          </div>
+        )}
+
+        {area && !drawMode && (
+          <div className="space-y-1">
+            <div className="text-slate-300">{describeArea(area)}</div>
+            <div className={insideCount === 0 && totalCount > 0 ? 'text-amber-400' : 'text-slate-400'}>
+              {insideCount.toLocaleString()} of {totalCount.toLocaleString()} cells inside
+            </div>
+            {!area.name && (
+              <div className="flex gap-1">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') save();
+                  }}
+                  placeholder="Name to save as"
+                  className="flex-1 min-w-0 bg-slate-800 text-slate-200 rounded px-2 py-1 border border-slate-700 placeholder:text-slate-600"
+                />
+                <button
+                  onClick={save}
+                  disabled={!name.trim()}
+                  className="px-2 py-1 rounded bg-slate-800 text-slate-300 hover:bg-slate-700 disabled:opacity-50 transition-colors"
+                >
+                  Save
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {savedAreas.length > 0 && (
+          <div>
+            <div className="text-slate-400 mb-1">Saved areas</div>
+            <div className="max-h-28 overflow-y-auto space-y-0.5">
+              {savedAreas.map((saved) => (
+                <div key={saved.name} className="flex items-center gap-1">
+                  <button
+                    onClick={() => onApplySaved(saved)}
+                    className={`flex-1 min-w-0 truncate text-left px-2 py-0.5 rounded transition-colors ${
+                      area?.name === saved.name
+                        ? 'bg-slate-700 text-slate-200'
+                        : 'text-slate-400 hover:text-slate-300 hover:bg-slate-800/50'
+                    }`}
+                  >
+                    {saved.name}
+                  </button>
+                  <button
+                    onClick={() => onDeleteSaved(saved.name)}
+                    aria-label={`Delete ${saved.name}`}
+                    className="p-0.5 text-slate-500 hover:text-slate-200 transition-colors"
+                  >
+                    <X className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,10 +1,29 @@
 'use client';
 
-import { useState, useRef, useEffect } from 'react';
-import { Send, MapPin, Loader2, Sparkles, Bot, User, Copy, ThumbsUp, ThumbsDown, RotateCcw, Search, BarChart3 } from 'lucide-react';
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { Send, MapPin, Loader2, Sparkles, Bot, User, Copy, Check, ThumbsUp, ThumbsDown, RotateCcw, Search, BarChart3, Scan, Square, History, Plus, Map as MapIcon, WifiOff } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import { CurrentView } from '@/lib/viewport';
+import { AreaOfInterest, describeArea, toAreaContext } from '@/lib/areas';
+import { StreamEvent, isNdjsonResponse, readNdjson } from '@/lib/streaming';
+import { HexagonDataMap, ValidationIssue } from '@/lib/hexagons';
+import {
+  ConversationSummary,
+  MapUpdate,
+  StoredMessage,
+  createId,
+  deleteConversation,
+  getConversation,
+  listConversations,
+  renameConversation,
+  saveConversation,
+  titleFromMessages
+} from '@/lib/conversations';
+import ConversationList from './ConversationList';
+
+export type { MapUpdate } from '@/lib/conversations';
 
 type Message = {
   id: string;
@@ -12,28 +31,68 @@ type Message = {
   content: string;
   timestamp: Date;
   isMarkdown?: boolean;
+  isStreaming?: boolean;
+  mode?: ResearchMode; // mode a user prompt was asked in
+  previousMessage?: string; // answer a research prompt was sent as context, reused on regenerate
+  feedback?: 'up' | 'down';
+  source?: AnswerSource;
+  fallbackReason?: string; // why the backend could not answer
+  mapUpdate?: MapUpdate; // map payload of a bot answer, kept so it can be shown again
 };
 
-type HexagonData = {
-  [h3Index: string]: {
-    score: number;
-    avgTemp?: number;
-    gridDistance?: number;
-    [key: string]: any;
-  };
+type FeedbackDraft = {
+  messageId: string;
+  rating: 'up' | 'down';
+  comment: string;
+};
+
+type ConversationMeta = {
+  id: string;
+  title: string;
+  createdAt: number;
 };
 
+// 'fallback' answers are canned demo data served while the backend is down
+type AnswerSource = 'backend' | 'fallback';
+
 type AnalyzeResponse = {
   response: string;
-  hexagonData: HexagonData;
+  source?: AnswerSource;
+  fallbackReason?: string;
+  hexagonData: HexagonDataMap;
+  highlighted?: string[];
+  highlightWeights?: Record<string, number>;
+  validationIssues?: ValidationIssue[];
+};
+
+type ErrorResponse = {
+  error: string;
+  message?: string;
+  details?: ValidationIssue[];
 };
 
+type StreamData = Omit<AnalyzeResponse, 'response'>;
+
 type ResearchMode = 'analysis' | 'research';
 
 interface ChatProps {
-  onMapUpdate: (hexagonData: HexagonData) => void;
+  onMapUpdate: (update: MapUpdate) => void;
   researchMode: ResearchMode;
   onResearchModeChange: (mode: ResearchMode) => void;
+  currentView?: CurrentView;
+  limitToVisibleArea?: boolean;
+  onLimitToVisibleAreaChange?: (limit: boolean) => void;
+  area?: AreaOfInterest | null; // drawn area questions are scoped to
+  initialQuery?: string; // asked once on load, e.g. from a shared link
+}
+
+function toStoredMessage(message: Message): StoredMessage {
+  const { id, type, content, timestamp, isMarkdown, mode, previousMessage, feedback, source, fallbackReason, mapUpdate } = message;
+  return { id, type, content, timestamp: timestamp.getTime(), isMarkdown, mode, previousMessage, feedback, source, fallbackReason, mapUpdate };
+}
+
+function fromStoredMessage(message: StoredMessage): Message {
+  return { ...message, timestamp: new Date(message.timestamp) };
 }
 
 const SAMPLE_QUERIES = {
@@ -49,11 +108,60 @@ const SAMPLE_QUERIES = {
   ]
 };
 
-export default function Chat({ onMapUpdate, researchMode, onResearchModeChange }: ChatProps) {
+export default function Chat({
+  onMapUpdate,
+  researchMode,
+  onResearchModeChange,
+  currentView,
+  limitToVisibleArea = false,
+  onLimitToVisibleAreaChange,
+  area = null,
+  initialQuery
+}: ChatProps) {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const initialQuerySentRef = useRef(false);
+  const [copiedMessageId, setCopiedMessageId] = useState<string | null>(null);
+  const [feedbackDraft, setFeedbackDraft] = useState<FeedbackDraft | null>(null);
+
+  // Saved conversations - the open one is written back whenever an answer completes
+  const [conversation, setConversation] = useState<ConversationMeta | null>(null);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  // What was last written, so giving a new conversation its ID doesn't save it again
+  const lastSavedRef = useRef<{ id: string; title: string; messages: Message[] } | null>(null);
+
+  const refreshConversations = useCallback(async () => {
+    try {
+      setConversations(await listConversations());
+    } catch (error) {
+      console.error('Error loading conversations:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshConversations();
+  }, [refreshConversations]);
+
+  useEffect(() => {
+    if (messages.length === 0 || messages.some(m => m.isStreaming)) return;
+
+    const stored = messages.map(toStoredMessage);
+    const meta = conversation ?? { id: createId(), title: titleFromMessages(stored), createdAt: stored[0].timestamp };
+    if (!conversation) setConversation(meta);
+
+    const lastSaved = lastSavedRef.current;
+    if (lastSaved?.id === meta.id && lastSaved.title === meta.title && lastSaved.messages === messages) return;
+    lastSavedRef.current = { id: meta.id, title: meta.title, messages };
+
+    // updatedAt follows the last message, so reopening a conversation doesn't bump it
+    saveConversation({ ...meta, updatedAt: stored[stored.length - 1].timestamp, messages: stored })
+      .then(refreshConversations)
+      .catch((error) => console.error('Error saving conversation:', error));
+  }, [messages, conversation, refreshConversations]);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -63,45 +171,144 @@ export default function Chat({ onMapUpdate, researchMode, onResearchModeChange }
     scrollToBottom();
   }, [messages]);
 
-  const addMessage = (type: 'user' | 'bot', content: string, isMarkdown = false) => {
+  const addMessage = (
+    type: 'user' | 'bot',
+    content: string,
+    isMarkdown = false,
+    isStreaming = false,
+    prompt: Pick<Message, 'mode' | 'previousMessage'> = {}
+  ): string => {
     const newMessage: Message = {
-      id: Date.now().toString(),
+      id: createId(),
       type,
       content,
       timestamp: new Date(),
-      isMarkdown
+      isMarkdown,
+      isStreaming,
+      ...(prompt.mode && { mode: prompt.mode }),
+      ...(prompt.previousMessage && { previousMessage: prompt.previousMessage })
     };
     setMessages(prev => [...prev, newMessage]);
+    return newMessage.id;
+  };
+
+  const updateMessage = (id: string, update: (message: Message) => Partial<Message>) => {
+    setMessages(prev => prev.map(m => (m.id === id ? { ...m, ...update(m) } : m)));
+  };
+
+  const applyMapUpdate = (data: StreamData, query: string): MapUpdate | null => {
+    if (data.validationIssues && data.validationIssues.length > 0) {
+      console.warn('Some hexagon data was dropped by validation:', data.validationIssues);
+    }
+    const hasHexagons = data.hexagonData && Object.keys(data.hexagonData).length > 0;
+    const hasHighlights = data.highlighted && data.highlighted.length > 0;
+    if (!hasHexagons && !hasHighlights) return null;
+
+    const update: MapUpdate = {
+      hexagonData: data.hexagonData || {},
+      query,
+      highlighted: data.highlighted,
+      highlightWeights: data.highlightWeights
+    };
+    onMapUpdate(update);
+    return update;
   };
 
-  const handleSendMessage = async (message?: string) => {
+  const openConversation = async (id: string) => {
+    try {
+      const stored = await getConversation(id);
+      if (!stored) return;
+
+      const loaded = stored.messages.map(fromStoredMessage);
+      lastSavedRef.current = { id: stored.id, title: stored.title, messages: loaded };
+      setConversation({ id: stored.id, title: stored.title, createdAt: stored.createdAt });
+      setMessages(loaded);
+      setShowHistory(false);
+
+      // Put the map of the latest answer back
+      const lastMapUpdate = [...loaded].reverse().find(m => m.mapUpdate)?.mapUpdate;
+      if (lastMapUpdate) onMapUpdate(lastMapUpdate);
+    } catch (error) {
+      console.error('Error opening conversation:', error);
+    }
+  };
+
+  const startNewConversation = () => {
+    setConversation(null);
+    setMessages([]);
+    setShowHistory(false);
+  };
+
+  const handleRenameConversation = async (id: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+    if (conversation?.id === id) {
+      setConversation({ ...conversation, title: trimmed });
+      return;
+    }
+    try {
+      await renameConversation(id, trimmed);
+      await refreshConversations();
+    } catch (error) {
+      console.error('Error renaming conversation:', error);
+    }
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    try {
+      await deleteConversation(id);
+      if (conversation?.id === id) {
+        setConversation(null);
+        setMessages([]);
+      }
+      await refreshConversations();
+    } catch (error) {
+      console.error('Error deleting conversation:', error);
+    }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Research prompts are sent with the latest answer as context, unless `context`
+  // says otherwise (regenerating reuses the context of the original prompt)
+  const handleSendMessage = async (
+    message?: string,
+    mode: ResearchMode = researchMode,
+    context?: { previousMessage?: string }
+  ) => {
     const messageToSend = message || inputValue.trim();
     if (!messageToSend || isLoading) return;
 
-    setInputValue('');
-    addMessage('user', messageToSend);
+    const previousMessage = mode !== 'research'
+      ? undefined
+      : context ? context.previousMessage : messages.filter(m => m.type === 'bot').pop()?.content;
+
+    if (!message) setInputValue('');
+    addMessage('user', messageToSend, false, false, { mode, previousMessage });
     setIsLoading(true);
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let botMessageId: string | null = null;
+    let reportedError: string | null = null;
+
     try {
-      // Get previous AI message for research context
-      const lastBotMessage = messages.filter(m => m.type === 'bot').pop();
-      
       const requestBody = {
         message: messageToSend,
-        ...(researchMode === 'research' && lastBotMessage && { 
-          previousMessage: lastBotMessage.content 
-        }),
-        // context: {
-        //   currentView: {
-        //     lat: currentLat,
-        //     lng: currentLng,
-        //     zoom: currentZoom
-        //   }
-        // }
+        stream: true,
+        ...(previousMessage && { previousMessage }),
+        ...((currentView || area) && {
+          context: {
+            ...(currentView && { currentView, limitToView: limitToVisibleArea }),
+            ...(area && { area: toAreaContext(area) })
+          }
+        })
       };
 
       // Choose endpoint based on research mode
-      const endpoint = researchMode === 'research' ? '/api/research' : '/api/analyze';
+      const endpoint = mode === 'research' ? '/api/research' : '/api/analyze';
       
       const response = await fetch(endpoint, {
         method: 'POST',
@@ -109,27 +316,154 @@ export default function Chat({ onMapUpdate, researchMode, onResearchModeChange }
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(requestBody),
+        signal: abortController.signal,
       });
 
       if (!response.ok) {
+        const errorBody: ErrorResponse | null = await response.json().catch(() => null);
+        if (errorBody?.details) {
+          console.warn('Backend payload issues:', errorBody.details);
+        }
+        reportedError = errorBody?.message || errorBody?.error || null;
         throw new Error(`HTTP error! status: ${response.status}`);
       }
 
-      const data: AnalyzeResponse = await response.json();
-      
-      addMessage('bot', data.response, true);
-      
-      if (data.hexagonData && Object.keys(data.hexagonData).length > 0) {
-        onMapUpdate(data.hexagonData);
+      if (!isNdjsonResponse(response)) {
+        const data: AnalyzeResponse = await response.json();
+        const messageId = addMessage('bot', data.response, true);
+        const mapUpdate = applyMapUpdate(data, messageToSend);
+        updateMessage(messageId, () => ({
+          ...(mapUpdate && { mapUpdate }),
+          source: data.source,
+          fallbackReason: data.fallbackReason
+        }));
+        return;
+      }
+
+      // Render the answer as it streams in; the map payload arrives last
+      let streamError: string | null = null;
+      await readNdjson<StreamEvent<StreamData>>(response, (event) => {
+        switch (event.type) {
+          case 'token':
+            if (!botMessageId) {
+              botMessageId = addMessage('bot', event.content, true, true);
+            } else {
+              updateMessage(botMessageId, m => ({ content: m.content + event.content }));
+            }
+            break;
+          case 'data': {
+            const mapUpdate = applyMapUpdate(event.data, messageToSend);
+            // An answer with no text still carries its map and its source
+            if (!botMessageId) {
+              botMessageId = addMessage('bot', '', true, true);
+            }
+            updateMessage(botMessageId, () => ({
+              ...(mapUpdate && { mapUpdate }),
+              source: event.data.source,
+              fallbackReason: event.data.fallbackReason
+            }));
+            break;
+          }
+          case 'error':
+            streamError = event.message;
+            reportedError = event.message;
+            break;
+        }
+      });
+
+      if (streamError) {
+        throw new Error(streamError);
       }
     } catch (error) {
+      if (abortController.signal.aborted) {
+        if (botMessageId) {
+          updateMessage(botMessageId, m => ({ content: `${m.content}\n\n*Response cancelled.*` }));
+        } else {
+          addMessage('bot', 'Request cancelled.');
+        }
+        return;
+      }
+
       console.error('Error sending message:', error);
-      addMessage('bot', 'Sorry, I encountered an error processing your request. Please try again.');
+      if (botMessageId) {
+        updateMessage(botMessageId, m => ({ content: `${m.content}\n\n*The response was interrupted. Please try again.*` }));
+      } else {
+        addMessage('bot', reportedError
+          ? `Sorry, I encountered an error processing your request: ${reportedError}. Please try again.`
+          : 'Sorry, I encountered an error processing your request. Please try again.');
+      }
     } finally {
+      if (botMessageId) {
+        updateMessage(botMessageId, () => ({ isStreaming: false }));
+      }
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  // The user prompt a bot message answers
+  const findPrompt = (botMessageId: string): Message | undefined => {
+    const index = messages.findIndex(m => m.id === botMessageId);
+    return messages.slice(0, index).reverse().find(m => m.type === 'user');
+  };
+
+  const handleCopy = async (message: Message) => {
+    try {
+      await navigator.clipboard.writeText(message.content);
+      setCopiedMessageId(message.id);
+      setTimeout(() => setCopiedMessageId((id) => (id === message.id ? null : id)), 1500);
+    } catch (error) {
+      console.error('Error copying message:', error);
+    }
+  };
+
+  const handleRegenerate = (message: Message) => {
+    const prompt = findPrompt(message.id);
+    if (prompt) handleSendMessage(prompt.content, prompt.mode ?? researchMode, { previousMessage: prompt.previousMessage });
+  };
+
+  const submitFeedback = async (draft: FeedbackDraft) => {
+    const message = messages.find(m => m.id === draft.messageId);
+    const prompt = message && findPrompt(message.id);
+    setFeedbackDraft(null);
+    if (!message || !prompt) return;
+
+    updateMessage(message.id, () => ({ feedback: draft.rating }));
+    try {
+      const response = await fetch('/api/feedback', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          rating: draft.rating,
+          ...(draft.comment.trim() && { comment: draft.comment.trim() }),
+          prompt: prompt.content,
+          response: message.content,
+          mode: prompt.mode ?? researchMode,
+          hexagonCount: Object.keys(message.mapUpdate?.hexagonData || {}).length,
+          messageId: message.id
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Error sending feedback:', error);
+      updateMessage(message.id, () => ({ feedback: undefined }));
+    }
+  };
+
+  // Re-ask the question behind a shared link so its map data is rebuilt
+  const sendMessageRef = useRef(handleSendMessage);
+  sendMessageRef.current = handleSendMessage;
+
+  useEffect(() => {
+    if (!initialQuery || initialQuerySentRef.current) return;
+    initialQuerySentRef.current = true;
+    sendMessageRef.current(initialQuery);
+  }, [initialQuery]);
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -138,7 +472,19 @@ export default function Chat({ onMapUpdate, researchMode, onResearchModeChange }
   };
 
   return (
-    <div className="flex flex-col h-full bg-gradient-to-br from-[#18181b] to-[#23232a] border-l border-slate-800">
+    <div className="relative flex flex-col h-full bg-gradient-to-br from-[#18181b] to-[#23232a] border-l border-slate-800">
+      {showHistory && (
+        <ConversationList
+          conversations={conversations}
+          activeId={conversation?.id ?? null}
+          onSelect={openConversation}
+          onRename={handleRenameConversation}
+          onDelete={handleDeleteConversation}
+          onNew={startNewConversation}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
       {/* Chat header */}
       <div className="p-6 border-b border-slate-800 bg-[#23232a]">
         <div className="flex items-center justify-between">
@@ -154,6 +500,22 @@ export default function Chat({ onMapUpdate, researchMode, onResearchModeChange }
           
           {/* Research Mode Toggle */}
           <div className="flex items-center gap-2">
+            <button
+              onClick={startNewConversation}
+              disabled={isLoading}
+              className="p-2 rounded-lg text-slate-400 hover:text-slate-200 hover:bg-slate-700/50 disabled:opacity-50 transition-colors"
+              title="New conversation"
+            >
+              <Plus className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => setShowHistory(true)}
+              disabled={isLoading}
+              className="p-2 rounded-lg text-slate-400 hover:text-slate-200 hover:bg-slate-700/50 disabled:opacity-50 transition-colors"
+              title="Conversation history"
+            >
+              <History className="h-4 w-4" />
+            </button>
             <div className="flex bg-[#18181b] rounded-lg border border-slate-800 p-1">
               <button
                 onClick={() => onResearchModeChange('analysis')}
@@ -235,11 +597,26 @@ export default function Chat({ onMapUpdate, researchMode, onResearchModeChange }
                          : 'bg-[#18181b] text-slate-200 border border-slate-800 shadow-lg'
                      }`}
                    >
+                     {message.source === 'fallback' && (
+                       <div
+                         className="flex items-center gap-2 mb-3 px-2.5 py-1.5 w-fit rounded-lg bg-amber-500/10 border border-amber-500/40 text-amber-300 text-xs font-medium"
+                         title={message.fallbackReason}
+                       >
+                         <WifiOff className="h-3.5 w-3.5" />
+                         Offline demo data - not a real analysis
+                       </div>
+                     )}
+                     {message.source === 'fallback' && message.fallbackReason && (
+                       <p className="mb-3 text-xs text-amber-200/70">{message.fallbackReason}</p>
+                     )}
                      {message.isMarkdown ? (
                        <div className="markdown-content">
                          <ReactMarkdown remarkPlugins={[remarkGfm]}>
                            {message.content}
                          </ReactMarkdown>
+                         {message.isStreaming && (
+                           <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-slate-400 animate-pulse" />
+                         )}
                        </div>
                      ) : (
                        <p className="leading-relaxed">{message.content}</p>
@@ -261,26 +638,84 @@ export default function Chat({ onMapUpdate, researchMode, onResearchModeChange }
                        
                        {message.type === 'bot' && (
                          <div className="flex items-center gap-1">
-                           <button className="p-1.5 hover:bg-slate-700/50 rounded-lg transition-colors">
-                             <ThumbsUp className="h-3 w-3 text-slate-400 hover:text-green-400" />
+                           {message.mapUpdate && (
+                             <button
+                               onClick={() => message.mapUpdate && onMapUpdate(message.mapUpdate)}
+                               className="p-1.5 hover:bg-slate-700/50 rounded-lg transition-colors"
+                               title="Show this answer on the map"
+                             >
+                               <MapIcon className="h-3 w-3 text-slate-400 hover:text-amber-400" />
+                             </button>
+                           )}
+                           <button
+                             onClick={() => setFeedbackDraft({ messageId: message.id, rating: 'up', comment: '' })}
+                             disabled={message.isStreaming || Boolean(message.feedback)}
+                             className="p-1.5 hover:bg-slate-700/50 rounded-lg transition-colors disabled:pointer-events-none"
+                             title="Good answer"
+                           >
+                             <ThumbsUp className={`h-3 w-3 hover:text-green-400 ${message.feedback === 'up' ? 'text-green-400' : 'text-slate-400'}`} />
                            </button>
-                           <button className="p-1.5 hover:bg-slate-700/50 rounded-lg transition-colors">
-                             <ThumbsDown className="h-3 w-3 text-slate-400 hover:text-red-400" />
+                           <button
+                             onClick={() => setFeedbackDraft({ messageId: message.id, rating: 'down', comment: '' })}
+                             disabled={message.isStreaming || Boolean(message.feedback)}
+                             className="p-1.5 hover:bg-slate-700/50 rounded-lg transition-colors disabled:pointer-events-none"
+                             title="Bad answer"
+                           >
+                             <ThumbsDown className={`h-3 w-3 hover:text-red-400 ${message.feedback === 'down' ? 'text-red-400' : 'text-slate-400'}`} />
                            </button>
-                           <button className="p-1.5 hover:bg-slate-700/50 rounded-lg transition-colors">
-                             <Copy className="h-3 w-3 text-slate-400 hover:text-blue-400" />
+                           <button
+                             onClick={() => handleCopy(message)}
+                             className="p-1.5 hover:bg-slate-700/50 rounded-lg transition-colors"
+                             title="Copy markdown"
+                           >
+                             {copiedMessageId === message.id
+                               ? <Check className="h-3 w-3 text-green-400" />
+                               : <Copy className="h-3 w-3 text-slate-400 hover:text-blue-400" />}
                            </button>
-                           <button className="p-1.5 hover:bg-slate-700/50 rounded-lg transition-colors">
+                           <button
+                             onClick={() => handleRegenerate(message)}
+                             disabled={isLoading}
+                             className="p-1.5 hover:bg-slate-700/50 rounded-lg transition-colors disabled:opacity-50"
+                             title="Regenerate"
+                           >
                              <RotateCcw className="h-3 w-3 text-slate-400 hover:text-purple-400" />
                            </button>
                          </div>
                        )}
                      </div>
+
+                     {feedbackDraft?.messageId === message.id && (
+                       <div className="mt-3 space-y-2">
+                         <textarea
+                           autoFocus
+                           value={feedbackDraft.comment}
+                           onChange={(e) => setFeedbackDraft({ ...feedbackDraft, comment: e.target.value })}
+                           placeholder={feedbackDraft.rating === 'up' ? 'What was helpful? (optional)' : 'What went wrong? (optional)'}
+                           rows={2}
+                           maxLength={2000}
+                           className="w-full rounded-lg border border-slate-800 bg-[#23232a] px-3 py-2 text-xs text-slate-200 placeholder:text-slate-500 focus:outline-none focus:ring-1 focus:ring-slate-600"
+                         />
+                         <div className="flex justify-end gap-2 text-xs">
+                           <button
+                             onClick={() => setFeedbackDraft(null)}
+                             className="px-3 py-1 rounded-lg text-slate-400 hover:text-slate-200"
+                           >
+                             Cancel
+                           </button>
+                           <button
+                             onClick={() => submitFeedback(feedbackDraft)}
+                             className="px-3 py-1 rounded-lg bg-slate-700 text-slate-200 hover:bg-slate-600"
+                           >
+                             Send feedback
+                           </button>
+                         </div>
+                       </div>
+                     )}
                    </div>
                  </div>
             ))}
             
-            {isLoading && (
+            {isLoading && !messages.some(m => m.isStreaming) && (
               <div className="flex justify-start message-enter">
                 <div className="flex items-start gap-3 max-w-[85%]">
                   <div className="p-2 bg-gradient-to-br from-blue-500/20 to-purple-500/20 rounded-lg border border-blue-500/30 flex-shrink-0 mt-1">
@@ -302,6 +737,25 @@ export default function Chat({ onMapUpdate, researchMode, onResearchModeChange }
 
       {/* Input area */}
       <div className="border-t border-slate-800 p-6 bg-[#18181b]">
+        {onLimitToVisibleAreaChange && (
+          <button
+            onClick={() => onLimitToVisibleAreaChange(!limitToVisibleArea)}
+            className={`flex items-center gap-2 mb-3 px-3 py-1.5 rounded-lg text-xs border transition-colors ${
+              limitToVisibleArea
+                ? 'bg-slate-700 text-slate-200 border-slate-600'
+                : 'text-slate-400 border-slate-800 hover:text-slate-300'
+            }`}
+          >
+            <Scan className="h-3.5 w-3.5" />
+            Limit to visible area{limitToVisibleArea ? ': on' : ''}
+          </button>
+        )}
+        {area && (
+          <div className="flex items-center gap-2 mb-3 text-xs text-sky-300">
+            <MapPin className="h-3.5 w-3.5" />
+            Scoped to {describeArea(area)} · {area.cells.length.toLocaleString()} cells
+          </div>
+        )}
         <div className="flex gap-3">
           <input
             value={inputValue}
@@ -311,13 +765,23 @@ export default function Chat({ onMapUpdate, researchMode, onResearchModeChange }
             disabled={isLoading}
             className="flex h-12 w-full rounded-xl border border-slate-800 bg-[#23232a] px-4 py-3 text-sm placeholder:text-slate-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-600 focus-visible:ring-offset-2 focus-visible:ring-offset-[#18181b] disabled:cursor-not-allowed disabled:opacity-50 transition-all duration-300 text-slate-200"
           />
-          <button
-            onClick={() => handleSendMessage()}
-            disabled={!inputValue.trim() || isLoading}
-            className="inline-flex items-center justify-center rounded-xl text-sm font-medium transition-all duration-300 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-600 focus-visible:ring-offset-2 focus-visible:ring-offset-[#18181b] disabled:pointer-events-none disabled:opacity-50 bg-[#23232a] text-slate-200 border border-slate-800 hover:bg-[#23232a]/80 hover:shadow active:scale-95 h-12 w-12"
-          >
-            <Send className="h-5 w-5" />
-          </button>
+          {isLoading ? (
+            <button
+              onClick={handleCancel}
+              title="Stop generating"
+              className="inline-flex items-center justify-center rounded-xl text-sm font-medium transition-all duration-300 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-600 focus-visible:ring-offset-2 focus-visible:ring-offset-[#18181b] bg-[#23232a] text-red-300 border border-slate-800 hover:bg-[#23232a]/80 hover:shadow active:scale-95 h-12 w-12"
+            >
+              <Square className="h-4 w-4 fill-current" />
+            </button>
+          ) : (
+            <button
+              onClick={() => handleSendMessage()}
+              disabled={!inputValue.trim()}
+              className="inline-flex items-center justify-center rounded-xl text-sm font-medium transition-all duration-300 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-slate-600 focus-visible:ring-offset-2 focus-visible:ring-offset-[#18181b] disabled:pointer-events-none disabled:opacity-50 bg-[#23232a] text-slate-200 border border-slate-800 hover:bg-[#23232a]/80 hover:shadow active:scale-95 h-12 w-12"
+            >
+              <Send className="h-5 w-5" />
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,136 @@
+'use client';
+
+import { useState } from 'react';
+import { toCssColor } from '@/lib/colors';
+import { MetricDefinition, formatMetricValue, parseMetricValue } from '@/lib/metrics';
+import { Classification, PALETTES, PALETTE_IDS, PaletteId, ScaleConfig, samplePalette } from '@/lib/scales';
+
+interface ColorScalePanelProps {
+  config: ScaleConfig;
+  onChange: (config: ScaleConfig) => void;
+  metricId: string;
+  metric: MetricDefinition;
+  domain: [number, number]; // range the active scale spans
+}
+
+const CLASSIFICATIONS: Classification[] = ['linear', 'quantile', 'custom'];
+
+const CLASS_COUNTS = [3, 4, 5, 6, 7];
+
+function paletteGradient(paletteId: PaletteId): string {
+  const colors = [0, 0.25, 0.5, 0.75, 1].map((t) => toCssColor(samplePalette(PALETTES[paletteId], t)));
+  return `linear-gradient(to right, ${colors.join(', ')})`;
+}
+
+export default function ColorScalePanel({ config, onChange, metricId, metric, domain }: ColorScalePanelProps) {
+  const [min, max] = domain;
+  const toDisplay = (value: number) => (value * metric.displayScale).toFixed(metric.digits);
+  const breaks = config.customBreaks[metricId] || [];
+  const formatBreaks = () => breaks.map(toDisplay).join(', ');
+  const exampleBreaks = [0.25, 0.5, 0.75].map((t) => toDisplay(min + (max - min) * t)).join(', ');
+
+  // Breaks are edited as text in display units and applied on blur or Enter.
+  // The map keys this panel by metric, so switching layers starts fresh
+  const [breaksText, setBreaksText] = useState(formatBreaks);
+  const [breaksError, setBreaksError] = useState<string | null>(null);
+
+  const applyBreaks = () => {
+    const parts = breaksText.split(/[,;\s]+/).filter(Boolean);
+    const values = parts.map((part) => parseMetricValue(metric, part));
+    if (values.some((v) => v === null)) {
+      setBreaksError(`Breaks must be numbers, e.g. ${exampleBreaks}`);
+      return;
+    }
+    const sorted = Array.from(new Set(values as number[])).sort((a, b) => a - b);
+    if (sorted.some((v) => v <= min || v >= max)) {
+      setBreaksError(`Breaks must be between ${formatMetricValue(metric, min)} and ${formatMetricValue(metric, max)}`);
+      return;
+    }
+    setBreaksError(null);
+    onChange({ ...config, customBreaks: { ...config.customBreaks, [metricId]: sorted } });
+  };
+
+  const palette = PALETTES[config.palette];
+
+  return (
+    <div className="border-t border-slate-700 pt-3">
+      <div className="text-sm font-medium text-slate-300 mb-2">Color Scale</div>
+      <div className="space-y-2 text-xs max-w-[220px]">
+        <select
+          value={config.palette}
+          onChange={(e) => onChange({ ...config, palette: e.target.value as PaletteId })}
+          className="w-full bg-slate-800 text-slate-200 rounded px-1 py-0.5 border border-slate-700"
+        >
+          {(['sequential', 'diverging'] as const).map((kind) => (
+            <optgroup key={kind} label={kind === 'sequential' ? 'Sequential' : 'Diverging'}>
+              {PALETTE_IDS.filter((id) => PALETTES[id].kind === kind).map((id) => (
+                <option key={id} value={id}>
+                  {PALETTES[id].label}{PALETTES[id].colorblindSafe ? ' (colorblind-safe)' : ''}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+        <div className="h-2 rounded" style={{ background: paletteGradient(config.palette) }}></div>
+        {!palette.colorblindSafe && (
+          <div className="text-slate-500">Hard to read with red-green color blindness</div>
+        )}
+
+        {metric.integer ? (
+          <div className="text-slate-500">{metric.label} use one class per whole number</div>
+        ) : (
+          <div className="flex gap-1">
+            {CLASSIFICATIONS.map((classification) => (
+              <button
+                key={classification}
+                onClick={() => onChange({ ...config, classification })}
+                className={`flex-1 px-2 py-1 rounded capitalize transition-colors ${
+                  config.classification === classification
+                    ? 'bg-slate-700 text-slate-200'
+                    : 'text-slate-400 hover:text-slate-300 hover:bg-slate-800/50'
+                }`}
+              >
+                {classification}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {!metric.integer && config.classification === 'quantile' && (
+          <label className="flex items-center justify-between gap-3 text-slate-400">
+            <span>Classes</span>
+            <select
+              value={config.classCount}
+              onChange={(e) => onChange({ ...config, classCount: Number(e.target.value) })}
+              className="bg-slate-800 text-slate-200 rounded px-1 py-0.5 border border-slate-700"
+            >
+              {CLASS_COUNTS.map((count) => (
+                <option key={count} value={count}>{count}</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {!metric.integer && config.classification === 'custom' && (
+          <div>
+            <label className="block text-slate-400 mb-1">
+              Breaks ({metric.unit})
+            </label>
+            <input
+              type="text"
+              value={breaksText}
+              onChange={(e) => setBreaksText(e.target.value)}
+              onBlur={applyBreaks}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') applyBreaks();
+              }}
+              placeholder={`e.g. ${exampleBreaks}`}
+              className="w-full bg-slate-800 text-slate-200 rounded px-2 py-1 border border-slate-700 placeholder:text-slate-600"
+            />
+            {breaksError && <div className="text-red-400 mt-1">{breaksError}</div>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
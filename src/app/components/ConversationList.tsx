@@ -0,0 +1,153 @@
+'use client';
+
+import { useState } from 'react';
+import { Search, Plus, Pencil, Trash2, X, Check, MessageSquare } from 'lucide-react';
+import { ConversationSummary, searchConversations } from '@/lib/conversations';
+
+interface ConversationListProps {
+  conversations: ConversationSummary[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+  onClose: () => void;
+}
+
+function formatDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+export default function ConversationList({
+  conversations,
+  activeId,
+  onSelect,
+  onRename,
+  onDelete,
+  onNew,
+  onClose
+}: ConversationListProps) {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+
+  const visible = searchConversations(conversations, searchTerm);
+
+  const startEditing = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  const commitEditing = () => {
+    if (editingId && editingTitle.trim()) {
+      onRename(editingId, editingTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="absolute inset-0 z-20 flex flex-col bg-[#18181b]/98 backdrop-blur-sm">
+      <div className="flex items-center justify-between p-4 border-b border-slate-800">
+        <div className="text-sm font-medium text-slate-300">Conversations</div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={onNew}
+            className="p-1.5 rounded-lg text-slate-400 hover:text-slate-200 hover:bg-slate-700/50 transition-colors"
+            title="New conversation"
+          >
+            <Plus className="h-4 w-4" />
+          </button>
+          <button
+            onClick={onClose}
+            className="p-1.5 rounded-lg text-slate-400 hover:text-slate-200 hover:bg-slate-700/50 transition-colors"
+            title="Close"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 border-b border-slate-800">
+        <div className="flex items-center gap-2 rounded-lg border border-slate-800 bg-[#23232a] px-3 py-2">
+          <Search className="h-4 w-4 text-slate-500" />
+          <input
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search conversations..."
+            className="w-full bg-transparent text-sm text-slate-200 placeholder:text-slate-500 focus:outline-none"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2">
+        {visible.length === 0 && (
+          <div className="p-4 text-sm text-slate-500 text-center">
+            {conversations.length === 0 ? 'No saved conversations yet' : 'No conversations match your search'}
+          </div>
+        )}
+        {visible.map((conversation) => (
+          <div
+            key={conversation.id}
+            className={`group flex items-center gap-2 px-3 py-2.5 rounded-lg transition-colors ${
+              conversation.id === activeId ? 'bg-slate-700/60' : 'hover:bg-slate-800/60'
+            }`}
+          >
+            <MessageSquare className="h-4 w-4 text-slate-500 flex-shrink-0" />
+            {editingId === conversation.id ? (
+              <>
+                <input
+                  autoFocus
+                  value={editingTitle}
+                  onChange={(e) => setEditingTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitEditing();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-1 min-w-0 rounded bg-[#23232a] border border-slate-700 px-2 py-1 text-sm text-slate-200 focus:outline-none"
+                />
+                <button
+                  onClick={commitEditing}
+                  className="p-1 rounded text-slate-400 hover:text-green-400"
+                  title="Save name"
+                >
+                  <Check className="h-3.5 w-3.5" />
+                </button>
+              </>
+            ) : (
+              <>
+                <button onClick={() => onSelect(conversation.id)} className="flex-1 min-w-0 text-left">
+                  <div className="text-sm text-slate-200 truncate">{conversation.title}</div>
+                  <div className="text-xs text-slate-500">
+                    {formatDate(conversation.updatedAt)} · {conversation.messageCount} messages
+                  </div>
+                </button>
+                <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => startEditing(conversation)}
+                    className="p-1 rounded text-slate-400 hover:text-slate-200"
+                    title="Rename"
+                  >
+                    <Pencil className="h-3.5 w-3.5" />
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (window.confirm(`Delete "${conversation.title}"?`)) onDelete(conversation.id);
+                    }}
+                    className="p-1 rounded text-slate-400 hover:text-red-400"
+                    title="Delete"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
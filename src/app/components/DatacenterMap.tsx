@@ -2,226 +2,786 @@
 
 import { DeckGL } from '@deck.gl/react';
 import { H3HexagonLayer, TileLayer } from '@deck.gl/geo-layers';
-import { BitmapLayer } from '@deck.gl/layers';
-import { PickingInfo } from '@deck.gl/core';
-import { DataFilterExtension } from '@deck.gl/extensions';
-import { latLngToCell } from 'h3-js';
-import { useState, useEffect, useImperativeHandle, forwardRef, useCallback } from 'react';
+import { BitmapLayer, PathLayer, PolygonLayer, ScatterplotLayer } from '@deck.gl/layers';
+import { PickingInfo, MapViewState, FlyToInterpolator } from '@deck.gl/core';
+import { DataFilterExtension, DataFilterExtensionProps, FillStyleExtension, FillStyleExtensionProps } from '@deck.gl/extensions';
+import { getResolution } from 'h3-js';
+import { useState, useEffect, useImperativeHandle, forwardRef, useCallback, useRef, useMemo } from 'react';
+import { SCORE_FACTORS, ScoreWeights, computeCompositeScore } from '@/lib/scoring';
+import { INITIAL_VIEW_STATE, MapSize, fitViewToCells } from '@/lib/viewport';
+import { HexData, HexagonDataMap, OPPOSITION_LEVELS, getDominantResolution, summarizeIssues, toHexDataList, validateHexagonDataMap } from '@/lib/hexagons';
+import { APPEARED_COLOR, DISAPPEARED_COLOR, NO_DATA_COLOR, OPPOSITION_COLORS, RGBAColor, getOppositionColor, toCssColor, withAlpha } from '@/lib/colors';
+import { DEFAULT_SCALE, ScaleConfig, createColorScale, extent } from '@/lib/scales';
+import { LAYER_METRICS, METRICS, RAW_LAYER_METRICS, RawLayer, countMetric, deltaMetric, formatCellCount, formatMetricValue, getMetricValue, isRawLayer } from '@/lib/metrics';
+import { EMPTY_FILTERS, FILTER_SLOTS, MapFilters, describeFilters, getFilterCategory, getFilterValues, isFilterActive, resolveFilters } from '@/lib/filters';
+import { HATCH_MAPPING, HatchPattern, createHatchAtlas, hatchScaleForView } from '@/lib/patterns';
+import { generateFranceSample } from '@/lib/sample';
+import {
+  INFRASTRUCTURE_LAYERS,
+  InfrastructureFeature,
+  InfrastructureLayerId,
+  getFeatureColor,
+  getKindColor,
+  loadInfrastructureLayer,
+  plantRadiusMeters
+} from '@/lib/infrastructure';
+import { findBestNeighborhoods, neighborhoodOutline, summarizeNeighborhood } from '@/lib/neighborhoods';
+import {
+  AreaKind,
+  AreaOfInterest,
+  AreaShape,
+  LngLat,
+  SavedArea,
+  clipToArea,
+  createArea,
+  deleteSavedArea,
+  draftShape,
+  loadSavedAreas,
+  saveArea,
+  shapeToRing
+} from '@/lib/areas';
+import { DiffCell, DiffConfig, Snapshot, createSnapshot, diffSnapshots, recordSnapshot } from '@/lib/snapshots';
+import { AggregatedHexData, AggregationConfig, DEFAULT_AGGREGATION, NumericMetric, aggregateToResolution, countedMetrics, findDisplayedCell, resolutionForZoom } from '@/lib/aggregation';
+import ScoreWeightsPanel from './ScoreWeightsPanel';
+import AggregationPanel from './AggregationPanel';
+import ExportMenu from './ExportMenu';
+import SitesPanel, { SiteRanking } from './SitesPanel';
+import { ImportedSite, MIN_SITE_RESOLUTION, SiteImportError, getSiteCells, parseSitesFile } from '@/lib/sites';
+import { ExportFormat, downloadExport, exportCells, getExportFilename } from '@/lib/export';
+import HexDetailPanel from './HexDetailPanel';
+import HexComparison from './HexComparison';
+import ColorScalePanel from './ColorScalePanel';
+import MapLegend from './MapLegend';
+import FilterPanel from './FilterPanel';
+import SnapshotTimeline from './SnapshotTimeline';
+import AreaPanel from './AreaPanel';
+import NeighborhoodPanel from './NeighborhoodPanel';
+import InfrastructurePanel from './InfrastructurePanel';
 
-type HexData = {
-  hex: string;
-  score: number;
-  connection_points?: number;
-  latency_ms?: number;
-  avg_temperature?: number;
-  connection_normalized_score?: number;
-  latency_normalized_score?: number;
-  temperature_normalized_score?: number;
-  opposition?: "low" | "medium" | "high";
+export type LayerType = 'score' | 'connection' | 'latency' | 'temperature' | 'opposition';
+
+// Opposition drawn on top of a numeric layer
+export type OppositionOverlay = 'off' | 'outline' | 'hatch';
+
+type BackendResponse = {
+  hexagonData: HexagonDataMap;
+  query?: string; // question that produced the data, kept for exports
+  highlighted?: string[];
+  highlightWeights?: Record<string, number>;
 };
 
-type LayerType = 'score' | 'connection' | 'latency' | 'temperature';
-
-type BackendHexagonData = {
-  [h3Index: string]: {
-    score: number;
-    connection_points?: number;
-    latency_ms?: number;
-    avg_temperature?: number;
-    connection_normalized_score?: number;
-    latency_normalized_score?: number;
-    temperature_normalized_score?: number;
-    opposition?: "low" | "medium" | "high";
-    [key: string]: any; // Allow additional fields
-  };
+// One cell covered by imported candidate sites, with its backend metrics once scored
+type SiteCell = {
+  hex: string;
+  siteNames: string[];
+  metrics?: HexagonDataMap[string];
 };
 
-type BackendResponse = {
-  hexagonData: BackendHexagonData;
+type Highlight = {
+  hex: string;
+  weight: number; // 0-1 emphasis
 };
 
+// Highlight pulse: one cycle every PULSE_PERIOD_MS, PULSE_CYCLES times
+const PULSE_PERIOD_MS = 1600;
+const PULSE_CYCLES = 3;
+
 interface DatacenterMapProps {
   initialData?: HexData[];
   showLoadingState?: boolean;
   activeLayer?: LayerType;
   onLayerChange?: (layer: LayerType) => void;
+  viewState?: MapViewState;
+  onViewStateChange?: (viewState: MapViewState) => void;
+  onResize?: (size: MapSize) => void;
+  filters?: MapFilters;
+  onFiltersChange?: (filters: MapFilters) => void;
+  selectedHexes?: string[];
+  onSelectedHexesChange?: (hexes: string[]) => void;
+  onDatasetRestore?: (query: string | undefined) => void; // a snapshot from the history was put back
+  area?: AreaOfInterest | null;
+  onAreaChange?: (area: AreaOfInterest | null) => void;
 }
 
 export interface DatacenterMapRef {
   updateMap: (data: BackendResponse) => void;
+  highlightHexagons: (highlighted: string[], weights?: Record<string, number>) => void;
 }
 
-// Generate initial/sample H3 hexagons for France at resolution 7
-function generateSampleFranceHexagons(): HexData[] {
-  const frenchCities = [
-    { lat: 48.8566, lng: 2.3522, name: 'Paris' },
-    { lat: 45.7640, lng: 4.8357, name: 'Lyon' },
-    { lat: 43.2965, lng: 5.3698, name: 'Marseille' },
-    { lat: 47.2184, lng: -1.5536, name: 'Nantes' },
-    { lat: 44.8378, lng: -0.5792, name: 'Bordeaux' },
-    { lat: 43.6047, lng: 1.4442, name: 'Toulouse' },
-    { lat: 49.2583, lng: 4.0317, name: 'Reims' },
-    { lat: 45.1885, lng: 5.7245, name: 'Grenoble' },
-    { lat: 50.6292, lng: 3.0573, name: 'Lille' },
-    { lat: 48.1173, lng: -1.6778, name: 'Rennes' },
-    { lat: 47.4784, lng: -0.5632, name: 'Angers' },
-    { lat: 43.7102, lng: 7.2620, name: 'Nice' },
-  ];
-
-  return frenchCities.map((city, index) => {
-    const hex = latLngToCell(city.lat, city.lng, 6);
-    
-    // Generate varied data for each location
-    const score = Math.random(); // Random score between 0 and 1
-    const avgTemp = 8 + Math.random() * 15; // Temperature between 8-23°C
-    const connectionPoints = Math.floor(Math.random() * 5 + 1); // 1-5 connection points
-    const latency = Math.floor(Math.random() * 50 + 10); // 10-60ms latency
-    
+// Scale backend highlight weights to 0-1 emphasis; unweighted cells get full emphasis
+function toHighlights(highlighted: string[], weights?: Record<string, number>): Highlight[] {
+  const uniqueHexes = Array.from(new Set(highlighted.filter((hex) => typeof hex === 'string' && hex)));
+  const values = uniqueHexes
+    .map((hex) => weights?.[hex])
+    .filter((w): w is number => typeof w === 'number' && isFinite(w));
+  const maxWeight = values.length > 0 ? Math.max(...values) : 0;
+
+  return uniqueHexes.map((hex) => {
+    const weight = weights?.[hex];
     return {
       hex,
-      score: parseFloat(score.toFixed(2)),
-      avg_temperature: parseFloat(avgTemp.toFixed(1)),
-      connection_points: connectionPoints,
-      latency_ms: latency,
-      connection_normalized_score: Math.random(),
-      latency_normalized_score: Math.random(),
-      temperature_normalized_score: Math.random(),
-      opposition: ["low", "medium", "high"][Math.floor(Math.random() * 3)] as "low" | "medium" | "high"
+      weight: typeof weight === 'number' && isFinite(weight) && maxWeight > 0
+        ? Math.max(0.2, Math.min(1, weight / maxWeight))
+        : 1
     };
   });
 }
 
-const INITIAL_VIEW_STATE = {
-  longitude: 2.2137,
-  latitude: 46.2276,
-  zoom: 6,
-  pitch: 45,
-  bearing: -20,
-  maxZoom: 12,
-  minZoom: 4
-};
+// Site names come from user files and end up in tooltip HTML
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
 
 const DatacenterMap = forwardRef<DatacenterMapRef, DatacenterMapProps>(
-  ({ initialData, showLoadingState = false, activeLayer = 'score', onLayerChange }, ref) => {
+  ({
+    initialData,
+    showLoadingState = false,
+    activeLayer = 'score',
+    onLayerChange,
+    viewState,
+    onViewStateChange,
+    onResize,
+    filters: filtersProp,
+    onFiltersChange,
+    selectedHexes: selectedHexesProp,
+    onSelectedHexesChange,
+    onDatasetRestore,
+    area: areaProp,
+    onAreaChange
+  }, ref) => {
     // State for hexagon data
-    const [hexData, setHexData] = useState<HexData[]>(
-      initialData || generateSampleFranceHexagons()
-    );
+    // Starts with the seeded nationwide sample until the backend sends data
+    const [hexData, setHexData] = useState<HexData[]>(() => initialData || generateFranceSample());
     const [isLoading, setIsLoading] = useState(showLoadingState);
+    const [dataQuery, setDataQuery] = useState<string | undefined>(undefined);
+
+    // Every dataset the map has shown, oldest first, starting with the one it opened with
+    const [snapshots, setSnapshots] = useState<Snapshot[]>(() => [createSnapshot(hexData, undefined, new Date())]);
+    const [currentSnapshotId, setCurrentSnapshotId] = useState<string | null>(() => snapshots[0].id);
+    const snapshotsRef = useRef(snapshots);
+    snapshotsRef.current = snapshots;
+
+    // Two snapshots compared cell by cell, replacing the data layer while set
+    const [diffConfig, setDiffConfig] = useState<DiffConfig | null>(null);
     
-    // Filter state - 0 means show all, higher values filter to top percentages
-    const [filterThreshold, setFilterThreshold] = useState(0);
-
-    // Helper function to get filter value based on active layer
-    const getFilterValue = (d: HexData): number => {
-      switch (activeLayer) {
-        case 'score':
-          return d.score;
-        case 'connection':
-          return d.connection_normalized_score || 0;
-        case 'latency':
-          return d.latency_normalized_score || 0;
-        case 'temperature':
-          return d.temperature_normalized_score || 0;
-        default:
-          return d.score;
-      }
+    // Range and opposition filters.
+    // Controlled by the parent when it passes filters, otherwise kept here
+    const [internalFilters, setInternalFilters] = useState<MapFilters>(EMPTY_FILTERS);
+    const filters = filtersProp ?? internalFilters;
+
+    const setFilters = (nextFilters: MapFilters) => {
+      setInternalFilters(nextFilters);
+      onFiltersChange?.(nextFilters);
     };
 
-    // Calculate filter range based on threshold percentage
-    const minFilterValue = filterThreshold / 100; // Convert percentage to 0-1 range
-    const filterRange: [number, number] = [minFilterValue, 1];
+    // Area of interest - the map only shows the cells inside it.
+    // Controlled by the parent when it passes area, otherwise kept here
+    const [internalArea, setInternalArea] = useState<AreaOfInterest | null>(null);
+    const area = areaProp === undefined ? internalArea : areaProp;
 
-    // Data validation function
-    const validateHexData = (data: BackendResponse): boolean => {
-      if (!data) {
-        console.warn('No data provided');
-        return true; // Treat as empty data
-      }
+    const setArea = (nextArea: AreaOfInterest | null) => {
+      setInternalArea(nextArea);
+      onAreaChange?.(nextArea);
+    };
 
-      if (!data.hexagonData || typeof data.hexagonData !== 'object') {
-        console.warn('Missing or invalid hexagonData object, treating as empty');
-        return true; // Treat as empty data rather than error
-      }
+    const areaData = useMemo(() => (area ? clipToArea(hexData, area) : hexData), [hexData, area]);
 
-      const hexEntries = Object.entries(data.hexagonData);
-      if (hexEntries.length === 0) {
-        console.log('No hexagon data provided');
-        return true; // Empty data is valid
-      }
+    // Camera - controlled by the parent when it passes viewState, otherwise kept here
+    const [internalViewState, setInternalViewState] = useState<MapViewState>(INITIAL_VIEW_STATE);
+    const currentViewState = viewState || internalViewState;
 
-      // Validate each hex entry
-      for (const [hexId, hexInfo] of hexEntries) {
-        if (!hexId || typeof hexId !== 'string') {
-          console.warn('Invalid H3 hex ID, skipping:', hexId);
-          continue; // Skip invalid entries rather than failing
-        }
+    // Zoomed out, cells are rolled up to coarser parents so they stay readable
+    const [aggregationEnabled, setAggregationEnabled] = useState(true);
+    const [aggregationConfig, setAggregationConfig] = useState<AggregationConfig>(DEFAULT_AGGREGATION);
+    const targetResolution = resolutionForZoom(currentViewState.zoom);
+    const isAggregating = aggregationEnabled && areaData.some((d) => getResolution(d.hex) > targetResolution);
 
-        if (!hexInfo || typeof hexInfo !== 'object') {
-          console.warn('Invalid hex data for', hexId, ', skipping:', hexInfo);
-          continue; // Skip invalid entries
-        }
+    const displayData = useMemo<AggregatedHexData[]>(() => {
+      if (!isAggregating) return areaData.map((d) => ({ ...d, childCount: 1 }));
+      return aggregateToResolution(areaData, targetResolution, aggregationConfig);
+    }, [areaData, isAggregating, targetResolution, aggregationConfig]);
+    // Metrics the rolled-up cells hold as cell counts, labelled as such
+    const countedMetricIds = useMemo(
+      () => (isAggregating ? countedMetrics(aggregationConfig) : []),
+      [isAggregating, aggregationConfig]
+    );
 
-        const { score } = hexInfo;
-        
-        if (typeof score !== 'number' || isNaN(score)) {
-          console.warn('Invalid score for', hexId, ', using default:', score);
-          // Don't fail validation, just warn
+    const handleViewStateChange = (nextViewState: MapViewState) => {
+      setInternalViewState(nextViewState);
+      onViewStateChange?.(nextViewState);
+    };
+
+    // Latest camera and canvas size, read by the imperative ref methods
+    const viewStateRef = useRef(currentViewState);
+    viewStateRef.current = currentViewState;
+    const mapSizeRef = useRef<MapSize>({ width: 0, height: 0 });
+    const onViewStateChangeRef = useRef(onViewStateChange);
+    onViewStateChangeRef.current = onViewStateChange;
+
+    const handleResize = (size: MapSize) => {
+      mapSizeRef.current = size;
+      onResize?.(size);
+    };
+
+    // Cells the last answer was about, drawn with a pulsing outline
+    const [highlights, setHighlights] = useState<Highlight[]>([]);
+    const [pulsePhase, setPulsePhase] = useState(0);
+
+    // Every frame of the pulse re-renders the map, so it only runs for a few
+    // cycles after new highlights arrive and then rests on a steady outline
+    useEffect(() => {
+      if (highlights.length === 0) return;
+      const startedAt = Date.now();
+      const interval = setInterval(() => {
+        const elapsed = Date.now() - startedAt;
+        if (elapsed >= PULSE_PERIOD_MS * PULSE_CYCLES) {
+          clearInterval(interval);
+          setPulsePhase(0);
+          return;
         }
+        setPulsePhase((elapsed % PULSE_PERIOD_MS) / PULSE_PERIOD_MS);
+      }, 50);
+      return () => clearInterval(interval);
+    }, [highlights]);
+
+    // Fly the camera so the given cells fill the view
+    const flyToCells = useCallback((hexes: string[]): void => {
+      const fitted = fitViewToCells(viewStateRef.current, mapSizeRef.current, hexes);
+      if (!fitted) return;
+
+      const nextViewState = {
+        ...fitted,
+        transitionDuration: 1200,
+        transitionInterpolator: new FlyToInterpolator()
+      };
+      setInternalViewState(nextViewState);
+      onViewStateChangeRef.current?.(nextViewState);
+    }, []);
+
+    const highlightHexagons = useCallback((highlighted: string[], weights?: Record<string, number>): void => {
+      const nextHighlights = toHighlights(highlighted || [], weights);
+      setHighlights(nextHighlights);
+      if (nextHighlights.length > 0) {
+        flyToCells(nextHighlights.map((h) => h.hex));
       }
+    }, [flyToCells]);
+
+    // Selected cells - the last one clicked is shown in the detail panel.
+    // Controlled by the parent when it passes selectedHexes, otherwise kept here
+    const [internalSelectedHexes, setInternalSelectedHexes] = useState<string[]>([]);
+    const selectedHexes = selectedHexesProp ?? internalSelectedHexes;
+    const [activeHex, setActiveHex] = useState<string | null>(null);
 
-      return true; // Always return true, but filter invalid data during transform
+    const selectedHexesRef = useRef(selectedHexes);
+    selectedHexesRef.current = selectedHexes;
+    const onSelectedHexesChangeRef = useRef(onSelectedHexesChange);
+    onSelectedHexesChangeRef.current = onSelectedHexesChange;
+
+    const setSelectedHexes = useCallback((hexes: string[]) => {
+      setInternalSelectedHexes(hexes);
+      onSelectedHexesChangeRef.current?.(hexes);
+    }, []);
+
+    // A selection restored from outside (e.g. a shared link) opens its last cell
+    useEffect(() => {
+      if (activeHex && selectedHexes.includes(activeHex)) return;
+      setActiveHex(selectedHexes.length > 0 ? selectedHexes[selectedHexes.length - 1] : null);
+    }, [selectedHexes, activeHex]);
+
+    // Zooming or changing the aggregation swaps the drawn cells: move the selection
+    // onto the cells now on the map (a rolled-up parent) and drop what has none.
+    // Empty data is skipped so a selection restored before its data loads survives.
+    useEffect(() => {
+      if (displayData.length === 0) return;
+      const displayed = new Set(displayData.map((d) => d.hex));
+      const current = selectedHexesRef.current;
+      const reconciled = Array.from(new Set(
+        current.map((hex) => findDisplayedCell(hex, displayed)).filter((hex): hex is string => hex !== undefined)
+      ));
+      if (reconciled.length !== current.length || reconciled.some((hex, i) => hex !== current[i])) {
+        setSelectedHexes(reconciled);
+      }
+      setActiveHex((prev) => (prev ? findDisplayedCell(prev, displayed) ?? null : null));
+    }, [displayData, setSelectedHexes]);
+    const [showComparison, setShowComparison] = useState(false);
+
+    // Score weights - null shows the backend score as-is
+    const [scoreWeights, setScoreWeights] = useState<ScoreWeights | null>(null);
+
+    // Opposition overlay on numeric layers; low-opposition cells are left clear
+    const [oppositionOverlay, setOppositionOverlay] = useState<OppositionOverlay>('off');
+    const showOppositionOverlay = oppositionOverlay !== 'off' && activeLayer !== 'opposition' && !diffConfig;
+
+    // Hatch atlas needs a canvas, so it is only created in the browser
+    const hatchAtlas = useMemo(() => (typeof document === 'undefined' ? null : createHatchAtlas()), []);
+
+    // Overall score for a cell, recomputed from the factor scores when custom weights are set
+    const getScore = (d: HexData): number => computeCompositeScore(d, scoreWeights);
+
+    // Layers shown in raw units (°C, ms, connection points) instead of the normalized score
+    const [rawLayers, setRawLayers] = useState<RawLayer[]>([]);
+    const layerMetricId: NumericMetric = activeLayer === 'opposition'
+      ? 'score'
+      : isRawLayer(activeLayer) && rawLayers.includes(activeLayer)
+        ? RAW_LAYER_METRICS[activeLayer]
+        : LAYER_METRICS[activeLayer];
+    const layerMetric = useMemo(
+      () => (countedMetricIds.includes(layerMetricId) ? countMetric(METRICS[layerMetricId]) : METRICS[layerMetricId]),
+      [countedMetricIds, layerMetricId]
+    );
+
+    const toggleRawLayer = (layer: RawLayer, raw: boolean) => {
+      setRawLayers((prev) => (raw ? [...prev.filter((l) => l !== layer), layer] : prev.filter((l) => l !== layer)));
     };
 
-    // Transform backend data to component format
-    const transformBackendData = (data: BackendResponse): HexData[] => {
-      if (!data || !data.hexagonData) return [];
-
-      return Object.entries(data.hexagonData)
-        .filter(([hexId, hexInfo]) => {
-          // Filter out invalid entries
-          return hexId && 
-                 typeof hexId === 'string' && 
-                 hexInfo && 
-                 typeof hexInfo === 'object' &&
-                 typeof hexInfo.score === 'number' &&
-                 !isNaN(hexInfo.score);
-        })
-        .map(([hexId, hexInfo]) => ({
-          hex: hexId,
-          score: Math.max(0, Math.min(1, Number(hexInfo.score.toFixed(2)))), // Clamp to 0-1
-          connection_points: hexInfo.connection_points !== null ? hexInfo.connection_points : undefined,
-          latency_ms: hexInfo.latency_ms !== null ? hexInfo.latency_ms : undefined,
-          avg_temperature: hexInfo.avg_temperature !== null ? hexInfo.avg_temperature : undefined,
-          connection_normalized_score: hexInfo.connection_normalized_score !== null && hexInfo.connection_normalized_score !== undefined ? Number(hexInfo.connection_normalized_score.toFixed(2)) : undefined,
-          latency_normalized_score: hexInfo.latency_normalized_score !== null && hexInfo.latency_normalized_score !== undefined ? Number(hexInfo.latency_normalized_score.toFixed(2)) : undefined,
-          temperature_normalized_score: hexInfo.temperature_normalized_score !== null && hexInfo.temperature_normalized_score !== undefined ? Number(hexInfo.temperature_normalized_score.toFixed(2)) : undefined,
-          opposition: hexInfo.opposition || undefined
-        }));
+    // Value the active layer colors and extrudes by; undefined is drawn as "no data"
+    const getActiveValue = (d: HexData): number | undefined => getMetricValue(d, layerMetricId, scoreWeights);
+
+    // Color scale for the active numeric layer; quantile breaks and raw-unit
+    // ranges follow the cells on screen
+    const [scaleConfig, setScaleConfig] = useState<ScaleConfig>(DEFAULT_SCALE);
+
+    const { colorScale, noDataCount } = useMemo(() => {
+      const values = displayData
+        .map((d) => getMetricValue(d, layerMetricId, scoreWeights))
+        .filter((v): v is number => v !== undefined);
+      const domain = layerMetric.fitToData ? extent(values) ?? layerMetric.domain : layerMetric.domain;
+      return {
+        colorScale: createColorScale(scaleConfig, domain, values, {
+          metricId: layerMetricId,
+          center: layerMetric.divergingCenter,
+          inverted: layerMetric.lowerIsBetter,
+          integer: layerMetric.integer
+        }),
+        noDataCount: displayData.length - values.length
+      };
+    }, [scaleConfig, layerMetricId, layerMetric, displayData, scoreWeights]);
+
+    // Column height as a share of the scale's range, so raw units extrude like scores
+    const getActiveHeight = (d: HexData): number => {
+      const value = getActiveValue(d);
+      if (value === undefined) return 0;
+      const [min, max] = colorScale.domain;
+      return max === min ? 0.5 : Math.max(0, Math.min(1, (value - min) / (max - min)));
     };
 
+    // Imported sites are always colored by score
+    const siteScale = useMemo(
+      () => createColorScale({ ...scaleConfig, classification: 'linear' }, METRICS.score.domain, []),
+      [scaleConfig]
+    );
+
+    // Snapshot diff - compares the source cells, so it is drawn without aggregation
+    const diffBase = diffConfig && snapshots.find((s) => s.id === diffConfig.baseId);
+    const diffTarget = diffConfig && snapshots.find((s) => s.id === diffConfig.targetId);
+    const diffMetricId = diffConfig?.metric;
+    const snapshotDiff = useMemo(() => {
+      if (!diffBase || !diffTarget || !diffMetricId) return null;
+      const clip = (snapshot: Snapshot) => (area ? { ...snapshot, data: clipToArea(snapshot.data, area) } : snapshot);
+      return diffSnapshots(clip(diffBase), clip(diffTarget), (d) => getMetricValue(d, diffMetricId, scoreWeights));
+    }, [diffBase, diffTarget, diffMetricId, scoreWeights, area]);
+    const diffMetric = deltaMetric(METRICS[diffMetricId ?? 'score']);
+
+    // Changes are colored on a linear diverging scale, symmetric around no change
+    const { diffScale, diffNoDataCount } = useMemo(() => {
+      const kept = snapshotDiff?.cells.filter((c) => c.status === 'kept') ?? [];
+      const deltas = kept.map((c) => c.delta).filter((v): v is number => v !== undefined);
+      const largest = Math.max(0, ...deltas.map(Math.abs));
+      const metric = deltaMetric(METRICS[diffMetricId ?? 'score']);
+      return {
+        diffScale: createColorScale(
+          { ...scaleConfig, classification: 'linear' },
+          largest > 0 ? [-largest, largest] : metric.domain,
+          deltas,
+          { center: 0, inverted: metric.lowerIsBetter }
+        ),
+        diffNoDataCount: kept.length - deltas.length
+      };
+    }, [snapshotDiff, scaleConfig, diffMetricId]);
+
+    const getDiffColor = (d: DiffCell): RGBAColor => {
+      if (d.status === 'appeared') return APPEARED_COLOR;
+      if (d.status === 'disappeared') return DISAPPEARED_COLOR;
+      return d.delta === undefined ? NO_DATA_COLOR : diffScale.getColor(d.delta);
+    };
+
+    // Fill color for the active layer, shared by the map and exports
+    const getLayerColor = (d: HexData): RGBAColor => {
+      if (activeLayer === 'opposition') return getOppositionColor(d.opposition);
+      const value = getActiveValue(d);
+      return value === undefined ? NO_DATA_COLOR : colorScale.getColor(value);
+    };
+
+    // Filters resolved against the cells on screen; percentile ranges rank them
+    const getMetric = (d: HexData, metric: NumericMetric) => getMetricValue(d, metric, scoreWeights);
+    const displayFilters = useMemo(
+      () => resolveFilters(filters, displayData, (d, metric) => getMetricValue(d, metric, scoreWeights)),
+      [filters, displayData, scoreWeights]
+    );
+    const passesFilter = displayFilters.test;
+    const passCount = useMemo(() => displayData.filter(displayFilters.test).length, [displayData, displayFilters]);
+
+    // Exports rank the source cells instead, so "top 20%" is a fifth of what is exported
+    const sourceFilteredCells = useMemo(() => {
+      if (!isFilterActive(filters)) return areaData;
+      const { test } = resolveFilters(filters, areaData, (d, metric) => getMetricValue(d, metric, scoreWeights));
+      return areaData.filter(test);
+    }, [filters, areaData, scoreWeights]);
+
+    // Slider bounds for value filters: the metric's usual range, widened to the data
+    const getMetricExtent = (metric: NumericMetric): [number, number] => {
+      const values = areaData.map((d) => getMetric(d, metric)).filter((v): v is number => v !== undefined);
+      const [min, max] = METRICS[metric].domain;
+      return values.length === 0 ? [min, max] : [Math.min(min, ...values), Math.max(max, ...values)];
+    };
+
+    const handleExport = (format: ExportFormat, applyFilter: boolean) => {
+      const cells = applyFilter ? sourceFilteredCells : areaData;
+      const exportedAt = new Date();
+      const content = exportCells(format, cells, {
+        metadata: {
+          query: dataQuery,
+          exportedAt,
+          layer: activeLayer,
+          ...(applyFilter && { filter: describeFilters(filters) }),
+          ...(scoreWeights && {
+            scoreWeights: SCORE_FACTORS.map((factor) => `${factor}=${scoreWeights[factor]}`).join(', ')
+          })
+        },
+        getScore,
+        getColor: getLayerColor
+      });
+      downloadExport(format, content, getExportFilename(format, exportedAt));
+    };
+
+    // Put a dataset on the map, keeping only the selected cells that are still on it
+    const showDataset = useCallback((cells: HexData[], query: string | undefined): void => {
+      setHexData(cells);
+      setDataQuery(query);
+
+      const availableHexes = new Set(cells.map((d) => d.hex));
+      const keptHexes = selectedHexesRef.current.filter((hex) => availableHexes.has(hex));
+      if (keptHexes.length !== selectedHexesRef.current.length) {
+        setSelectedHexes(keptHexes);
+      }
+      setActiveHex((prev) => (prev && availableHexes.has(prev) ? prev : null));
+    }, [setSelectedHexes]);
+
     // Update map function
     const updateMap = useCallback((data: BackendResponse): void => {
       try {
-        if (!validateHexData(data)) {
-          console.warn('Data validation failed, keeping current data');
-          return;
+        setIsLoading(true);
+
+        // Cells that break the shared contract are dropped and reported
+        const { data: hexagonData, issues } = validateHexagonDataMap(data?.hexagonData);
+        if (issues.length > 0) {
+          console.warn(`Skipped ${issues.length} invalid hexagon entries:`, summarizeIssues(issues, 5));
         }
 
-        setIsLoading(true);
-        const transformedData = transformBackendData(data);
-        setHexData(transformedData);
+        const transformedData = toHexDataList(hexagonData);
+        showDataset(transformedData, data?.query);
         console.log('Map updated with', transformedData.length, 'hexagons');
+
+        const { snapshots: nextSnapshots, current } = recordSnapshot(
+          snapshotsRef.current, transformedData, data?.query, new Date()
+        );
+        setSnapshots(nextSnapshots);
+        setCurrentSnapshotId(current.id);
+        // Leave diff mode if one of its snapshots fell off the history
+        const keptIds = new Set(nextSnapshots.map((s) => s.id));
+        setDiffConfig((prev) => (prev && keptIds.has(prev.baseId) && keptIds.has(prev.targetId) ? prev : null));
+
+        highlightHexagons(data?.highlighted || [], data?.highlightWeights);
       } catch (error) {
         console.error('Error updating map data:', error);
       } finally {
         setIsLoading(false);
       }
+    }, [highlightHexagons, showDataset]);
+
+    // Restoring a snapshot drops the highlights, which belonged to another answer
+    const restoreSnapshot = (snapshot: Snapshot) => {
+      showDataset(snapshot.data, snapshot.query);
+      setCurrentSnapshotId(snapshot.id);
+      setHighlights([]);
+      onDatasetRestore?.(snapshot.query);
+    };
+
+    // Click selects a cell, shift-click toggles it in the multi-selection
+    const handleHexClick = (info: PickingInfo<HexData>, event: { srcEvent: { shiftKey?: boolean } }) => {
+      const hex = info.object?.hex;
+      const additive = Boolean(event.srcEvent.shiftKey);
+
+      if (!hex) {
+        if (!additive) clearSelection();
+        return;
+      }
+
+      if (!additive) {
+        setSelectedHexes([hex]);
+        setActiveHex(hex);
+        return;
+      }
+
+      if (selectedHexes.includes(hex)) {
+        removeFromSelection(hex);
+      } else {
+        setSelectedHexes([...selectedHexes, hex]);
+        setActiveHex(hex);
+      }
+    };
+
+    const removeFromSelection = (hex: string) => {
+      const remaining = selectedHexes.filter((h) => h !== hex);
+      setSelectedHexes(remaining);
+      if (activeHex === hex) {
+        setActiveHex(remaining.length > 0 ? remaining[remaining.length - 1] : null);
+      }
+    };
+
+    const clearSelection = () => {
+      setSelectedHexes([]);
+      setActiveHex(null);
+      setShowComparison(false);
+    };
+
+    const focusHex = (hex: string) => {
+      setActiveHex(hex);
+      flyToCells([hex]);
+    };
+
+    // Drawing an area: clicks place points instead of selecting cells
+    const [drawMode, setDrawMode] = useState<AreaKind | null>(null);
+    const [draftPoints, setDraftPoints] = useState<LngLat[]>([]);
+    const [pointerPosition, setPointerPosition] = useState<LngLat | null>(null);
+    const [savedAreas, setSavedAreas] = useState<SavedArea[]>([]);
+
+    // Saved areas are in localStorage, so they are read once in the browser
+    useEffect(() => {
+      setSavedAreas(loadSavedAreas());
     }, []);
 
+    const startDrawing = (mode: AreaKind | null) => {
+      setDrawMode(mode);
+      setDraftPoints([]);
+      setPointerPosition(null);
+    };
+
+    // Area cells match the resolution of the data on the map
+    const finishShape = (shape: AreaShape) => {
+      setArea(createArea(shape, getDominantResolution(hexData)));
+      startDrawing(null);
+    };
+
+    const finishPolygon = () => {
+      if (draftPoints.length >= 3) finishShape({ type: 'polygon', coordinates: draftPoints });
+    };
+
+    const handleDrawClick = (info: PickingInfo) => {
+      if (!drawMode || !info.coordinate) return;
+      const point: LngLat = [info.coordinate[0], info.coordinate[1]];
+
+      if (drawMode === 'polygon') {
+        // Clicking the first point closes the polygon
+        if (info.layer?.id === 'area-draft-points' && info.index === 0) {
+          finishPolygon();
+        } else {
+          setDraftPoints([...draftPoints, point]);
+        }
+        return;
+      }
+
+      // Rectangles and circles take two clicks
+      const shape = draftShape(drawMode, draftPoints, point);
+      if (draftPoints.length === 0 || !shape) {
+        setDraftPoints([point]);
+      } else {
+        finishShape(shape);
+      }
+    };
+
+    // Enter closes the polygon and Escape cancels, unless typing in a field
+    const finishPolygonRef = useRef(finishPolygon);
+    finishPolygonRef.current = finishPolygon;
+
+    useEffect(() => {
+      if (!drawMode) return;
+      const handleKeyDown = (event: KeyboardEvent) => {
+        if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+        if (event.key === 'Escape') {
+          setDrawMode(null);
+          setDraftPoints([]);
+        } else if (event.key === 'Enter') {
+          finishPolygonRef.current();
+        }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [drawMode]);
+
+    const draftArea = drawMode ? draftShape(drawMode, draftPoints, pointerPosition) : null;
+
+    const saveCurrentArea = (name: string) => {
+      if (!area) return;
+      setSavedAreas(saveArea(name, area.shape));
+      setArea({ ...area, name: name.trim() });
+    };
+
+    const applySavedArea = (saved: SavedArea) => {
+      const nextArea = createArea(saved.shape, getDominantResolution(hexData), saved.name);
+      setArea(nextArea);
+      flyToCells(nextArea.cells);
+    };
+
+    const deleteArea = (name: string) => {
+      setSavedAreas(deleteSavedArea(name));
+      if (area?.name === name) setArea({ ...area, name: undefined });
+    };
+
+    // Neighborhood mode - the k-ring around the selected cell, and the best k-rings on the map
+    const [neighborhoodRing, setNeighborhoodRing] = useState<number | null>(null);
+    const displayByHex = useMemo(() => new Map<string, HexData>(displayData.map((d) => [d.hex, d])), [displayData]);
+    const neighborhood = neighborhoodRing !== null && activeHex
+      ? summarizeNeighborhood(activeHex, neighborhoodRing, displayByHex, getScore)
+      : null;
+    const bestNeighborhoods = useMemo(
+      () => (neighborhoodRing === null
+        ? []
+        : findBestNeighborhoods(displayData, neighborhoodRing, (d) => computeCompositeScore(d, scoreWeights))),
+      [displayData, neighborhoodRing, scoreWeights]
+    );
+    const bestNeighborhoodOutlines = useMemo(
+      () => bestNeighborhoods.flatMap((n) => neighborhoodOutline(n.cells)),
+      [bestNeighborhoods]
+    );
+
+    const focusNeighborhood = (center: string) => {
+      setSelectedHexes([center]);
+      setActiveHex(center);
+      flyToCells(bestNeighborhoods.find((n) => n.center === center)?.cells ?? [center]);
+    };
+
+    const comparedCells = selectedHexes
+      .map((hex) => displayData.find((d) => d.hex === hex))
+      .filter((d): d is AggregatedHexData => d !== undefined);
+
+    // Infrastructure overlays, fetched the first time each is turned on
+    const [infrastructureLayers, setInfrastructureLayers] = useState<InfrastructureLayerId[]>([]);
+    const [infrastructureData, setInfrastructureData] = useState<Partial<Record<InfrastructureLayerId, InfrastructureFeature[]>>>({});
+    const [infrastructureErrors, setInfrastructureErrors] = useState<Partial<Record<InfrastructureLayerId, string>>>({});
+
+    const toggleInfrastructureLayer = async (layer: InfrastructureLayerId) => {
+      if (infrastructureLayers.includes(layer)) {
+        setInfrastructureLayers((prev) => prev.filter((l) => l !== layer));
+        return;
+      }
+      setInfrastructureLayers((prev) => [...prev, layer]);
+      if (infrastructureData[layer]) return;
+
+      setInfrastructureErrors((prev) => ({ ...prev, [layer]: undefined }));
+      try {
+        const features = await loadInfrastructureLayer(layer);
+        setInfrastructureData((prev) => ({ ...prev, [layer]: features }));
+      } catch (error) {
+        console.error('Error loading infrastructure layer:', error);
+        setInfrastructureErrors((prev) => ({
+          ...prev,
+          [layer]: error instanceof Error ? error.message : 'Could not load the layer'
+        }));
+      }
+    };
+
+    const infrastructureFeatures = infrastructureLayers.flatMap((layer) => infrastructureData[layer] ?? []);
+    const infrastructureCounts = Object.fromEntries(
+      Object.entries(infrastructureData).map(([layer, features]) => [layer, features.length])
+    );
+
+    // Imported candidate sites, scored by the backend through /api/sites
+    const [sites, setSites] = useState<ImportedSite[]>([]);
+    const [siteMetrics, setSiteMetrics] = useState<HexagonDataMap>({});
+    const [siteStatus, setSiteStatus] = useState<'idle' | 'loading' | 'error'>('idle');
+    const [siteMessage, setSiteMessage] = useState<string | null>(null);
+    const [isDraggingFile, setIsDraggingFile] = useState(false);
+
+    const importSitesFile = async (file: File) => {
+      setSiteStatus('loading');
+      setSiteMessage(null);
+
+      try {
+        // Match the resolution of the data on the map, unless it is too coarse to say much about one site
+        const resolution = Math.max(getDominantResolution(hexData), MIN_SITE_RESOLUTION);
+
+        const { sites: importedSites, warnings } = parseSitesFile(file.name, await file.text(), resolution);
+        setSites(importedSites);
+        setSiteMetrics({});
+        flyToCells(getSiteCells(importedSites));
+
+        const response = await fetch('/api/sites', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ cells: getSiteCells(importedSites) }),
+        });
+        const body = await response.json();
+        if (!response.ok) {
+          throw new Error(body?.message || body?.error || `HTTP error! status: ${response.status}`);
+        }
+
+        setSiteMetrics(body.hexagonData || {});
+        setSiteStatus('idle');
+        const notes = [
+          `Imported ${importedSites.length} site${importedSites.length === 1 ? '' : 's'} from ${file.name}`,
+          ...(body.missing?.length ? [`${body.missing.length} cells came back without metrics`] : []),
+          ...warnings.slice(0, 3),
+        ];
+        setSiteMessage(notes.join('. '));
+      } catch (error) {
+        console.error('Error importing sites:', error);
+        setSiteStatus('error');
+        setSiteMessage(error instanceof SiteImportError || error instanceof Error
+          ? error.message
+          : 'Could not import the file');
+      }
+    };
+
+    const clearSites = () => {
+      setSites([]);
+      setSiteMetrics({});
+      setSiteMessage(null);
+      setSiteStatus('idle');
+    };
+
+    const siteCells = useMemo<SiteCell[]>(() => {
+      const cells = new Map<string, SiteCell>();
+      for (const site of sites) {
+        for (const hex of site.cells) {
+          const cell = cells.get(hex) || { hex, siteNames: [], metrics: siteMetrics[hex] };
+          cell.siteNames.push(site.name);
+          cells.set(hex, cell);
+        }
+      }
+      return Array.from(cells.values());
+    }, [sites, siteMetrics]);
+
+    // Rank each site's mean score against the cells the AI suggested
+    const siteRankings: SiteRanking[] = sites
+      .map((site) => {
+        const scores = site.cells
+          .filter((hex) => siteMetrics[hex])
+          .map((hex) => getScore({ hex, ...siteMetrics[hex] }));
+        const score = scores.length > 0 ? scores.reduce((sum, v) => sum + v, 0) / scores.length : undefined;
+        const rank = score !== undefined ? hexData.filter((d) => getScore(d) > score).length + 1 : undefined;
+        return { site, score, scoredCells: scores.length, rank };
+      })
+      .sort((a, b) => (b.score ?? -1) - (a.score ?? -1));
+
     // Expose updateMap function to parent components
     useImperativeHandle(ref, () => ({
-      updateMap
+      updateMap,
+      highlightHexagons
     }));
 
     // updateMap function is exposed via ref using useImperativeHandle
@@ -245,27 +805,14 @@ const DatacenterMap = forwardRef<DatacenterMapRef, DatacenterMapProps>(
           });
         }
       }),
-      // Score layer
-      ...(hexData.length > 0 && !isLoading && activeLayer === 'score' ? [
-        new H3HexagonLayer<HexData>({
-          id: 'h3-hexagons-score',
-          data: hexData,
+      // Numeric layer - height and color follow the active metric
+      ...(hexData.length > 0 && !isLoading && !snapshotDiff && activeLayer !== 'opposition' ? [
+        new H3HexagonLayer<HexData, DataFilterExtensionProps<HexData>>({
+          id: `h3-hexagons-${activeLayer}`,
+          data: displayData,
           getHexagon: (d: HexData) => d.hex,
-          getFillColor: (d: HexData) => {
-            const normalizedValue = Math.max(0, Math.min(1, d.score));
-            
-            if (normalizedValue < 0.3) {
-              const t = normalizedValue / 0.3;
-              return [255, Math.round(100 + 155 * t), 50, 220];
-            } else if (normalizedValue < 0.7) {
-              const t = (normalizedValue - 0.3) / 0.4;
-              return [255, Math.round(255), Math.round(50 + 205 * t), 220];
-            } else {
-              const t = (normalizedValue - 0.7) / 0.3;
-              return [Math.round(255 - 100 * t), 255, Math.round(255 - 155 * t), 220];
-            }
-          },
-          getElevation: (d: HexData) => d.score * 5000,
+          getFillColor: getLayerColor,
+          getElevation: (d: HexData) => getActiveHeight(d) * 5000,
           elevationScale: 1,
           pickable: true,
           stroked: true,
@@ -273,7 +820,7 @@ const DatacenterMap = forwardRef<DatacenterMapRef, DatacenterMapProps>(
           extruded: true,
           wireframe: false,
           lineWidthMinPixels: 1,
-          getLineColor: (d: HexData) => d.score > 0.8 ? [255, 255, 255, 120] : [255, 255, 255, 60],
+          getLineColor: (d: HexData) => getActiveHeight(d) > 0.8 ? [255, 255, 255, 120] : [255, 255, 255, 60],
           material: {
             ambient: 0.64,
             diffuse: 0.6,
@@ -284,175 +831,438 @@ const DatacenterMap = forwardRef<DatacenterMapRef, DatacenterMapProps>(
             getElevation: 600,
             getFillColor: 300
           },
-          extensions: [new DataFilterExtension({ filterSize: 1 })],
-          // @ts-ignore - DataFilterExtension properties
-          getFilterValue: (d: HexData) => getFilterValue(d),
-          filterRange: filterRange
+          extensions: [new DataFilterExtension({ filterSize: FILTER_SLOTS, categorySize: 1 })],
+          getFilterValue: (d: HexData) => getFilterValues(d, filters, getMetric),
+          filterRange: displayFilters.bounds,
+          getFilterCategory,
+          filterCategories: displayFilters.categories,
+          updateTriggers: {
+            getFillColor: [scoreWeights, colorScale],
+            getElevation: [scoreWeights, colorScale],
+            getLineColor: [scoreWeights, colorScale],
+            getFilterValue: [scoreWeights, filters]
+          }
         })
       ] : []),
-      // Connection layer
-      ...(hexData.length > 0 && !isLoading && activeLayer === 'connection' ? [
-        new H3HexagonLayer<HexData>({
-          id: 'h3-hexagons-connection',
-          data: hexData,
+      // Opposition layer - categorical, flat so the palette reads at any pitch
+      ...(hexData.length > 0 && !isLoading && !snapshotDiff && activeLayer === 'opposition' ? [
+        new H3HexagonLayer<HexData, DataFilterExtensionProps<HexData>>({
+          id: 'h3-hexagons-opposition',
+          data: displayData,
           getHexagon: (d: HexData) => d.hex,
-          getFillColor: (d: HexData) => {
-            const value = d.connection_normalized_score || 0;
-            const normalizedValue = Math.max(0, Math.min(1, value));
-            
-            if (normalizedValue < 0.3) {
-              const t = normalizedValue / 0.3;
-              return [255, Math.round(100 + 155 * t), 50, 220];
-            } else if (normalizedValue < 0.7) {
-              const t = (normalizedValue - 0.3) / 0.4;
-              return [255, Math.round(255), Math.round(50 + 205 * t), 220];
-            } else {
-              const t = (normalizedValue - 0.7) / 0.3;
-              return [Math.round(255 - 100 * t), 255, Math.round(255 - 155 * t), 220];
-            }
-          },
-          getElevation: (d: HexData) => (d.connection_normalized_score || 0) * 5000,
-          elevationScale: 1,
+          getFillColor: (d: HexData) => getOppositionColor(d.opposition),
           pickable: true,
           stroked: true,
           filled: true,
-          extruded: true,
-          wireframe: false,
+          extruded: false,
           lineWidthMinPixels: 1,
-          getLineColor: (d: HexData) => (d.connection_normalized_score || 0) > 0.8 ? [255, 255, 255, 120] : [255, 255, 255, 60],
-          material: {
-            ambient: 0.64,
-            diffuse: 0.6,
-            shininess: 32,
-            specularColor: [51, 51, 51]
-          },
+          getLineColor: [255, 255, 255, 60],
           transitions: {
-            getElevation: 600,
             getFillColor: 300
           },
-          extensions: [new DataFilterExtension({ filterSize: 1 })],
-          // @ts-ignore - DataFilterExtension properties
-          getFilterValue: (d: HexData) => getFilterValue(d),
-          filterRange: filterRange
+          extensions: [new DataFilterExtension({ filterSize: FILTER_SLOTS, categorySize: 1 })],
+          getFilterValue: (d: HexData) => getFilterValues(d, filters, getMetric),
+          filterRange: displayFilters.bounds,
+          getFilterCategory,
+          filterCategories: displayFilters.categories,
+          updateTriggers: {
+            getFilterValue: [scoreWeights, filters]
+          }
         })
       ] : []),
-      // Latency layer
-      ...(hexData.length > 0 && !isLoading && activeLayer === 'latency' ? [
-        new H3HexagonLayer<HexData>({
-          id: 'h3-hexagons-latency',
-          data: hexData,
-          getHexagon: (d: HexData) => d.hex,
-          getFillColor: (d: HexData) => {
-            const value = d.latency_normalized_score || 0;
-            const normalizedValue = Math.max(0, Math.min(1, value));
-            
-            if (normalizedValue < 0.3) {
-              const t = normalizedValue / 0.3;
-              return [255, Math.round(100 + 155 * t), 50, 220];
-            } else if (normalizedValue < 0.7) {
-              const t = (normalizedValue - 0.3) / 0.4;
-              return [255, Math.round(255), Math.round(50 + 205 * t), 220];
-            } else {
-              const t = (normalizedValue - 0.7) / 0.3;
-              return [Math.round(255 - 100 * t), 255, Math.round(255 - 155 * t), 220];
-            }
-          },
-          getElevation: (d: HexData) => (d.latency_normalized_score || 0) * 5000,
-          elevationScale: 1,
+      // Snapshot diff - kept cells colored by the change, appeared and disappeared ones outlined
+      ...(snapshotDiff && !isLoading ? [
+        new H3HexagonLayer<DiffCell>({
+          id: 'h3-snapshot-diff',
+          data: snapshotDiff.cells,
+          getHexagon: (d: DiffCell) => d.hex,
+          getFillColor: getDiffColor,
           pickable: true,
           stroked: true,
           filled: true,
-          extruded: true,
-          wireframe: false,
-          lineWidthMinPixels: 1,
-          getLineColor: (d: HexData) => (d.latency_normalized_score || 0) > 0.8 ? [255, 255, 255, 120] : [255, 255, 255, 60],
-          material: {
-            ambient: 0.64,
-            diffuse: 0.6,
-            shininess: 32,
-            specularColor: [51, 51, 51]
-          },
-          transitions: {
-            getElevation: 600,
-            getFillColor: 300
-          },
-          extensions: [new DataFilterExtension({ filterSize: 1 })],
-          // @ts-ignore - DataFilterExtension properties
-          getFilterValue: (d: HexData) => getFilterValue(d),
-          filterRange: filterRange
+          extruded: false,
+          getLineColor: (d: DiffCell) => d.status === 'kept' ? [255, 255, 255, 60] : withAlpha(getDiffColor(d), 255),
+          getLineWidth: (d: DiffCell) => (d.status === 'kept' ? 1 : 2),
+          lineWidthUnits: 'pixels',
+          updateTriggers: {
+            getFillColor: [diffScale],
+            getLineColor: [diffScale]
+          }
         })
       ] : []),
-      // Temperature layer
-      ...(hexData.length > 0 && !isLoading && activeLayer === 'temperature' ? [
+      // Opposition overlay on numeric layers - medium and high cells only,
+      // drawn without depth testing so it sits on top of extruded columns
+      ...(hexData.length > 0 && !isLoading && showOppositionOverlay && oppositionOverlay === 'outline' ? [
         new H3HexagonLayer<HexData>({
-          id: 'h3-hexagons-temperature',
-          data: hexData,
+          id: 'h3-opposition-outline',
+          data: displayData.filter((d) => (d.opposition === 'medium' || d.opposition === 'high') && passesFilter(d)),
           getHexagon: (d: HexData) => d.hex,
-          getFillColor: (d: HexData) => {
-            const value = d.temperature_normalized_score || 0;
-            const normalizedValue = Math.max(0, Math.min(1, value));
-            
-            if (normalizedValue < 0.3) {
-              const t = normalizedValue / 0.3;
-              return [255, Math.round(100 + 155 * t), 50, 220];
-            } else if (normalizedValue < 0.7) {
-              const t = (normalizedValue - 0.3) / 0.4;
-              return [255, Math.round(255), Math.round(50 + 205 * t), 220];
-            } else {
-              const t = (normalizedValue - 0.7) / 0.3;
-              return [Math.round(255 - 100 * t), 255, Math.round(255 - 155 * t), 220];
-            }
-          },
-          getElevation: (d: HexData) => (d.temperature_normalized_score || 0) * 5000,
-          elevationScale: 1,
+          filled: false,
+          stroked: true,
+          extruded: false,
+          getLineColor: (d: HexData) => getOppositionColor(d.opposition, 255),
+          getLineWidth: (d: HexData) => (d.opposition === 'high' ? 3 : 2),
+          lineWidthUnits: 'pixels',
+          parameters: { depthCompare: 'always' }
+        })
+      ] : []),
+      ...(hexData.length > 0 && !isLoading && showOppositionOverlay && oppositionOverlay === 'hatch' && hatchAtlas ? [
+        new H3HexagonLayer<HexData, FillStyleExtensionProps<HexData>>({
+          id: 'h3-opposition-hatch',
+          data: displayData.filter((d) => (d.opposition === 'medium' || d.opposition === 'high') && passesFilter(d)),
+          getHexagon: (d: HexData) => d.hex,
+          // Fill patterns need polygon sublayers
+          highPrecision: true,
+          filled: true,
+          stroked: false,
+          extruded: false,
+          getFillColor: (d: HexData) => getOppositionColor(d.opposition, 255),
+          extensions: [new FillStyleExtension({ pattern: true })],
+          fillPatternAtlas: hatchAtlas,
+          fillPatternMapping: HATCH_MAPPING,
+          fillPatternMask: true,
+          getFillPattern: (d: HexData): HatchPattern => (d.opposition === 'high' ? 'crosshatch' : 'hatch'),
+          getFillPatternScale: hatchScaleForView(currentViewState),
+          parameters: { depthCompare: 'always' }
+        })
+      ] : []),
+      // Infrastructure overlays - lines, then plants sized by capacity, then point sites on top
+      ...(infrastructureFeatures.length > 0 ? [
+        new PathLayer<InfrastructureFeature>({
+          id: 'infrastructure-lines',
+          data: infrastructureFeatures.filter((f) => f.geometry.type === 'line'),
+          getPath: (f: InfrastructureFeature) => f.geometry.coordinates as [number, number][],
+          getColor: getFeatureColor,
+          getWidth: 2,
+          widthUnits: 'pixels',
           pickable: true,
+          parameters: { depthCompare: 'always' }
+        }),
+        new ScatterplotLayer<InfrastructureFeature>({
+          id: 'infrastructure-plants',
+          data: infrastructureFeatures.filter((f) => f.layer === 'power-plants' && f.geometry.type === 'point'),
+          getPosition: (f: InfrastructureFeature) => f.geometry.coordinates as [number, number],
+          getRadius: (f: InfrastructureFeature) => plantRadiusMeters(f.capacityMw),
+          radiusUnits: 'meters',
+          radiusMinPixels: 3,
+          getFillColor: getFeatureColor,
           stroked: true,
+          getLineColor: [15, 23, 42, 255],
+          lineWidthMinPixels: 1,
+          pickable: true,
+          parameters: { depthCompare: 'always' }
+        }),
+        new ScatterplotLayer<InfrastructureFeature>({
+          id: 'infrastructure-points',
+          data: infrastructureFeatures.filter((f) => f.layer !== 'power-plants' && f.geometry.type === 'point'),
+          getPosition: (f: InfrastructureFeature) => f.geometry.coordinates as [number, number],
+          getRadius: 5,
+          radiusUnits: 'pixels',
+          getFillColor: getFeatureColor,
+          stroked: true,
+          getLineColor: [15, 23, 42, 255],
+          lineWidthMinPixels: 1,
+          pickable: true,
+          parameters: { depthCompare: 'always' }
+        })
+      ] : []),
+      // Imported candidate sites - their cells, polygon outlines and exact points
+      ...(siteCells.length > 0 ? [
+        new H3HexagonLayer<SiteCell>({
+          id: 'imported-site-cells',
+          data: siteCells,
+          getHexagon: (d: SiteCell) => d.hex,
           filled: true,
-          extruded: true,
-          wireframe: false,
+          stroked: true,
+          extruded: false,
+          pickable: true,
+          getFillColor: (d: SiteCell) => d.metrics
+            ? siteScale.getColor(getScore({ hex: d.hex, ...d.metrics }), 160)
+            : [34, 211, 238, 60],
+          getLineColor: [34, 211, 238, 255],
+          getLineWidth: 2,
+          lineWidthUnits: 'pixels',
+          parameters: { depthCompare: 'always' },
+          updateTriggers: {
+            getFillColor: [siteMetrics, scoreWeights, siteScale]
+          }
+        }),
+        new PolygonLayer<ImportedSite>({
+          id: 'imported-site-polygons',
+          data: sites.filter((site) => site.geometry.type === 'polygon'),
+          getPolygon: (site: ImportedSite) => site.geometry.coordinates as [number, number][][],
+          filled: false,
+          stroked: true,
+          getLineColor: [165, 243, 252, 255],
+          getLineWidth: 2,
+          lineWidthUnits: 'pixels',
+          parameters: { depthCompare: 'always' }
+        }),
+        new ScatterplotLayer<ImportedSite>({
+          id: 'imported-site-points',
+          data: sites.filter((site) => site.geometry.type === 'point'),
+          getPosition: (site: ImportedSite) => site.geometry.coordinates as [number, number],
+          getRadius: 5,
+          radiusUnits: 'pixels',
+          getFillColor: [34, 211, 238, 255],
+          stroked: true,
+          getLineColor: [15, 23, 42, 255],
           lineWidthMinPixels: 1,
-          getLineColor: (d: HexData) => (d.temperature_normalized_score || 0) > 0.8 ? [255, 255, 255, 120] : [255, 255, 255, 60],
-          material: {
-            ambient: 0.64,
-            diffuse: 0.6,
-            shininess: 32,
-            specularColor: [51, 51, 51]
-          },
-          transitions: {
-            getElevation: 600,
-            getFillColor: 300
-          },
-          extensions: [new DataFilterExtension({ filterSize: 1 })],
-          // @ts-ignore - DataFilterExtension properties
-          getFilterValue: (d: HexData) => getFilterValue(d),
-          filterRange: filterRange
+          parameters: { depthCompare: 'always' }
+        })
+      ] : []),
+      // Neighborhood - the selected cell's k-ring, and the best k-rings outlined
+      ...(neighborhoodRing !== null ? [
+        new PolygonLayer<number[][][]>({
+          id: 'neighborhood-best',
+          data: bestNeighborhoodOutlines,
+          getPolygon: (rings: number[][][]) => rings,
+          filled: false,
+          stroked: true,
+          getLineColor: [52, 211, 153, 200],
+          getLineWidth: 2,
+          lineWidthUnits: 'pixels',
+          parameters: { depthCompare: 'always' }
+        }),
+        ...(neighborhood ? [
+          new H3HexagonLayer<string>({
+            id: 'neighborhood-cells',
+            data: neighborhood.cells,
+            getHexagon: (hex: string) => hex,
+            filled: true,
+            stroked: false,
+            extruded: false,
+            getFillColor: [56, 189, 248, 40],
+            parameters: { depthCompare: 'always' }
+          }),
+          new PolygonLayer<number[][][]>({
+            id: 'neighborhood-outline',
+            data: neighborhoodOutline(neighborhood.cells),
+            getPolygon: (rings: number[][][]) => rings,
+            filled: false,
+            stroked: true,
+            getLineColor: [56, 189, 248, 255],
+            getLineWidth: 3,
+            lineWidthUnits: 'pixels',
+            parameters: { depthCompare: 'always' }
+          })
+        ] : [])
+      ] : []),
+      // Area of interest outline
+      ...(area ? [
+        new PolygonLayer<AreaOfInterest>({
+          id: 'area-of-interest',
+          data: [area],
+          getPolygon: (d: AreaOfInterest) => shapeToRing(d.shape),
+          filled: false,
+          stroked: true,
+          getLineColor: [56, 189, 248, 255],
+          getLineWidth: 2,
+          lineWidthUnits: 'pixels',
+          parameters: { depthCompare: 'always' }
+        })
+      ] : []),
+      // Shape being drawn and the points placed so far
+      ...(drawMode ? [
+        new PolygonLayer<AreaShape>({
+          id: 'area-draft',
+          data: draftArea ? [draftArea] : [],
+          getPolygon: (d: AreaShape) => shapeToRing(d),
+          filled: true,
+          stroked: true,
+          getFillColor: [56, 189, 248, 40],
+          getLineColor: [125, 211, 252, 255],
+          getLineWidth: 2,
+          lineWidthUnits: 'pixels',
+          parameters: { depthCompare: 'always' }
+        }),
+        new PathLayer<LngLat[]>({
+          id: 'area-draft-path',
+          data: drawMode === 'polygon' && draftPoints.length > 0 && !draftArea
+            ? [pointerPosition ? [...draftPoints, pointerPosition] : draftPoints]
+            : [],
+          getPath: (path: LngLat[]) => path,
+          getColor: [125, 211, 252, 255],
+          getWidth: 2,
+          widthUnits: 'pixels',
+          parameters: { depthCompare: 'always' }
+        }),
+        new ScatterplotLayer<LngLat>({
+          id: 'area-draft-points',
+          data: draftPoints,
+          getPosition: (point: LngLat) => point,
+          getRadius: (_: LngLat, { index }) => (index === 0 && drawMode === 'polygon' ? 7 : 4),
+          radiusUnits: 'pixels',
+          getFillColor: [125, 211, 252, 255],
+          stroked: true,
+          getLineColor: [15, 23, 42, 255],
+          lineWidthMinPixels: 1,
+          pickable: true,
+          parameters: { depthCompare: 'always' }
+        })
+      ] : []),
+      // Highlighted cells from the last answer - a soft glow plus a crisp outline,
+      // drawn without depth testing so extruded columns never hide them
+      ...(highlights.length > 0 ? [
+        new H3HexagonLayer<Highlight>({
+          id: 'h3-highlights-glow',
+          data: highlights,
+          getHexagon: (d: Highlight) => d.hex,
+          filled: true,
+          stroked: true,
+          extruded: false,
+          getFillColor: (d: Highlight) => [250, 204, 21, Math.round((20 + 50 * pulsePhase) * d.weight)],
+          getLineColor: (d: Highlight) => [250, 204, 21, Math.round((60 + 80 * (1 - pulsePhase)) * d.weight)],
+          getLineWidth: (d: Highlight) => (4 + 10 * pulsePhase) * d.weight,
+          lineWidthUnits: 'pixels',
+          parameters: { depthCompare: 'always' },
+          updateTriggers: {
+            getFillColor: [pulsePhase],
+            getLineColor: [pulsePhase],
+            getLineWidth: [pulsePhase]
+          }
+        }),
+        new H3HexagonLayer<Highlight>({
+          id: 'h3-highlights-outline',
+          data: highlights,
+          getHexagon: (d: Highlight) => d.hex,
+          filled: false,
+          stroked: true,
+          extruded: false,
+          getLineColor: (d: Highlight) => [253, 224, 71, Math.round(140 + 115 * d.weight)],
+          getLineWidth: (d: Highlight) => 1 + 2 * d.weight,
+          lineWidthUnits: 'pixels',
+          parameters: { depthCompare: 'always' }
+        })
+      ] : []),
+      // Selection outline, drawn above the data layer
+      ...(selectedHexes.length > 0 ? [
+        new H3HexagonLayer<string>({
+          id: 'h3-selection',
+          data: selectedHexes,
+          getHexagon: (hex: string) => hex,
+          filled: false,
+          stroked: true,
+          extruded: false,
+          getLineColor: (hex: string) => hex === activeHex ? [56, 189, 248, 255] : [255, 255, 255, 200],
+          getLineWidth: (hex: string) => hex === activeHex ? 4 : 2,
+          lineWidthUnits: 'pixels',
+          updateTriggers: {
+            getLineColor: [activeHex],
+            getLineWidth: [activeHex]
+          }
         })
       ] : [])
     ];
 
     return (
-      <div className="w-full h-screen relative">
+      <div
+        className="w-full h-screen relative"
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes('Files')) return;
+          e.preventDefault();
+          setIsDraggingFile(true);
+        }}
+        onDragLeave={(e) => {
+          if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+          setIsDraggingFile(false);
+        }}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDraggingFile(false);
+          const file = e.dataTransfer.files?.[0];
+          if (file) importSitesFile(file);
+        }}
+      >
         <DeckGL
-          initialViewState={INITIAL_VIEW_STATE}
+          viewState={currentViewState}
+          onViewStateChange={({ viewState: nextViewState }) => {
+            handleViewStateChange(nextViewState as MapViewState);
+          }}
+          onResize={handleResize}
+          onClick={(info, event) => (drawMode ? handleDrawClick(info) : handleHexClick(info, event))}
+          onHover={(info) => {
+            if (drawMode && info.coordinate) setPointerPosition([info.coordinate[0], info.coordinate[1]]);
+          }}
+          getCursor={({ isDragging }) => (drawMode ? 'crosshair' : isDragging ? 'grabbing' : 'grab')}
           controller={true}
           layers={layers}
-          getTooltip={(info: PickingInfo<HexData>) => {
-            if (!info.object) return null;
+          getTooltip={(info: PickingInfo<AggregatedHexData>) => {
+            if (!info.object || drawMode) return null;
+
+            if (info.layer?.id === 'h3-snapshot-diff') {
+              const cell = info.object as unknown as DiffCell;
+              const metric = METRICS[diffMetricId ?? 'score'];
+              const value = (v?: number) => (v === undefined ? 'No data' : formatMetricValue(metric, v));
+              const status = cell.status === 'appeared'
+                ? 'New in this snapshot'
+                : cell.status === 'disappeared' ? 'No longer in this snapshot' : `${value(cell.before)} → ${value(cell.after)}`;
+              return {
+                html: `
+                  <div style="background: rgba(24,24,27,0.98); color: #e5e7eb; border-radius: 14px; border: 1.5px solid #23232a; padding: 14px 18px; min-width: 200px; font-family: 'Inter', 'Geist', 'sans-serif'; font-size: 14px;">
+                    <div style="font-weight: 600; color: #f3f4f6; margin-bottom: 6px;">Location ${cell.hex.slice(-6).toUpperCase()}</div>
+                    <div style="display: flex; justify-content: space-between; gap: 12px;"><span style="color: #a1a1aa;">${escapeHtml(metric.label)}</span><span style="font-weight: 500;">${status}</span></div>
+                    ${cell.delta !== undefined ? `<div style="display: flex; justify-content: space-between;"><span style="color: #a1a1aa;">Change</span><span style="font-weight: 700;">${formatMetricValue(diffMetric, cell.delta)}</span></div>` : ''}
+                  </div>
+                `,
+                style: { pointerEvents: 'none', zIndex: '1000' }
+              };
+            }
+
+            if (info.layer?.id.startsWith('infrastructure-')) {
+              const feature = info.object as unknown as InfrastructureFeature;
+              const { label, kinds } = INFRASTRUCTURE_LAYERS[feature.layer];
+              const rows = [
+                ['Type', kinds[feature.kind]?.label ?? label],
+                ...(feature.voltageKv !== undefined ? [['Voltage', `${feature.voltageKv} kV`]] : []),
+                ...(feature.capacityMw !== undefined ? [['Capacity', `${feature.capacityMw.toLocaleString()} MW`]] : []),
+                ...(feature.operator ? [['Operator', feature.operator]] : [])
+              ];
+              return {
+                html: `
+                  <div style="background: rgba(24,24,27,0.98); color: #e5e7eb; border-radius: 14px; border: 1.5px solid #23232a; padding: 14px 18px; min-width: 200px; font-family: 'Inter', 'Geist', 'sans-serif'; font-size: 14px;">
+                    <div style="font-weight: 600; color: ${toCssColor(getFeatureColor(feature))}; margin-bottom: 6px;">${escapeHtml(feature.name)}</div>
+                    ${rows.map(([key, value]) => `<div style="display: flex; justify-content: space-between; gap: 12px;"><span style="color: #a1a1aa;">${key}</span><span style="font-weight: 500;">${escapeHtml(value)}</span></div>`).join('')}
+                  </div>
+                `,
+                style: { pointerEvents: 'none', zIndex: '1000' }
+              };
+            }
+
+            if (info.layer?.id === 'imported-site-cells') {
+              const cell = info.object as unknown as SiteCell;
+              const siteScore = cell.metrics ? getScore({ hex: cell.hex, ...cell.metrics }) : undefined;
+              return {
+                html: `
+                  <div style="background: rgba(24,24,27,0.98); color: #e5e7eb; border-radius: 14px; border: 1.5px solid #0e7490; padding: 14px 18px; min-width: 200px; font-family: 'Inter', 'Geist', 'sans-serif'; font-size: 14px;">
+                    <div style="font-weight: 600; color: #a5f3fc; margin-bottom: 6px;">📍 ${cell.siteNames.map(escapeHtml).join(', ')}</div>
+                    <div style="display: flex; justify-content: space-between;"><span style="color: #a1a1aa;">Score</span><span style="font-weight: 700;">${siteScore !== undefined ? `${(siteScore * 100).toFixed(0)}%` : 'Not scored'}</span></div>
+                  </div>
+                `,
+                style: { pointerEvents: 'none', zIndex: '1000' }
+              };
+            }
             
             const data = info.object;
-            const scoreColor = data.score > 0.7 ? '#10b981' : data.score > 0.3 ? '#f59e0b' : '#ef4444';
+            const score = getScore(data);
+            const shown = (metric: NumericMetric, value: number, unit: string) =>
+              countedMetricIds.includes(metric) ? formatCellCount(value) : `${value}${unit}`;
+            const scoreColor = score > 0.7 ? '#10b981' : score > 0.3 ? '#f59e0b' : '#ef4444';
             
             return {
               html: `
                 <div style="background: rgba(24,24,27,0.98); color: #e5e7eb; border-radius: 14px; box-shadow: 0 4px 32px 0 rgba(0,0,0,0.45); border: 1.5px solid #23232a; padding: 18px 20px; min-width: 240px; max-width: 320px; font-family: 'Inter', 'Geist', 'sans-serif'; font-size: 15px;">
                   <div style="font-weight: 600; color: #f3f4f6; margin-bottom: 10px; font-size: 15px;">Location <span style="color:#e5e7eb;">${data.hex.slice(-6).toUpperCase()}</span></div>
+                  ${data.childCount > 1 ? `<div style="color: #a1a1aa; font-size: 13px; margin-bottom: 8px;">Aggregate of ${data.childCount} cells (res ${data.sourceResolution} → ${getResolution(data.hex)})</div>` : ''}
                   <div style="display: flex; align-items: center; justify-content: space-between; margin-bottom: 8px;">
-                    <span style="color: #a1a1aa;">Score</span>
-                    <span style="font-weight: 700; color: ${scoreColor}; font-size: 16px;">${(data.score * 100).toFixed(0)}%</span>
+                    <span style="color: #a1a1aa;">${scoreWeights ? 'Weighted Score' : 'Score'}</span>
+                    <span style="font-weight: 700; color: ${scoreColor}; font-size: 16px;">${(score * 100).toFixed(0)}%</span>
                   </div>
-                  ${data.avg_temperature ? `<div style="display: flex; align-items: center; justify-content: space-between; margin-bottom: 6px;"><span style="color: #f87171;">🌡️ Temperature</span><span style="font-weight: 500; color: #f3f4f6;">${data.avg_temperature}°C</span></div>` : ''}
-                  ${data.connection_points ? `<div style="display: flex; align-items: center; justify-content: space-between; margin-bottom: 6px;"><span style="color: #38bdf8;">🔌 Connection Points</span><span style="font-weight: 500; color: #f3f4f6;">${data.connection_points}</span></div>` : ''}
-                  ${data.latency_ms ? `<div style="display: flex; align-items: center; justify-content: space-between; margin-bottom: 6px;"><span style="color: #facc15;">⚡ Latency</span><span style="font-weight: 500; color: #f3f4f6;">${data.latency_ms}ms</span></div>` : ''}
+                  ${scoreWeights ? `<div style="display: flex; align-items: center; justify-content: space-between; margin-bottom: 6px;"><span style="color: #a1a1aa;">Backend Score</span><span style="font-weight: 500; color: #f3f4f6;">${(data.score * 100).toFixed(0)}%</span></div>` : ''}
+                  ${data.avg_temperature ? `<div style="display: flex; align-items: center; justify-content: space-between; margin-bottom: 6px;"><span style="color: #f87171;">🌡️ Temperature</span><span style="font-weight: 500; color: #f3f4f6;">${shown('avg_temperature', data.avg_temperature, '°C')}</span></div>` : ''}
+                  ${data.connection_points ? `<div style="display: flex; align-items: center; justify-content: space-between; margin-bottom: 6px;"><span style="color: #38bdf8;">🔌 Connection Points</span><span style="font-weight: 500; color: #f3f4f6;">${shown('connection_points', data.connection_points, '')}</span></div>` : ''}
+                  ${data.latency_ms ? `<div style="display: flex; align-items: center; justify-content: space-between; margin-bottom: 6px;"><span style="color: #facc15;">⚡ Latency</span><span style="font-weight: 500; color: #f3f4f6;">${shown('latency_ms', data.latency_ms, 'ms')}</span></div>` : ''}
+                  ${highlights.some((h) => h.hex === data.hex) ? `<div style="display: flex; align-items: center; justify-content: space-between; margin-bottom: 6px;"><span style="color: #fde047;">✨ Highlighted in answer</span></div>` : ''}
                   ${data.opposition ? `<div style="display: flex; align-items: center; justify-content: space-between;"><span style="color: #818cf8;">👥 Opposition</span><span style="font-weight: 500; color: #f3f4f6; text-transform: capitalize;">${data.opposition}</span></div>` : ''}
                 </div>
               `,
@@ -476,13 +1286,13 @@ const DatacenterMap = forwardRef<DatacenterMapRef, DatacenterMapProps>(
         )}
         
         {/* Layer Controls */}
-        <div className="absolute top-6 left-6 bg-[#18181b]/95 backdrop-blur-sm text-slate-200 px-4 py-3 rounded-lg shadow-lg border border-slate-800">
+        <div className="absolute top-6 left-6 bg-[#18181b]/95 backdrop-blur-sm text-slate-200 px-4 py-3 rounded-lg shadow-lg border border-slate-800 max-h-[calc(100vh-3rem)] overflow-y-auto">
           <div className="flex flex-col gap-4">
             {/* Layer Selection */}
             <div>
               <div className="text-sm font-medium text-slate-300 mb-2">Data Layer</div>
               <div className="flex flex-col gap-1">
-                {(['score', 'connection', 'latency', 'temperature'] as LayerType[]).map((layer) => (
+                {(['score', 'connection', 'latency', 'temperature', 'opposition'] as LayerType[]).map((layer) => (
                   <button
                     key={layer}
                     onClick={() => {
@@ -498,60 +1308,287 @@ const DatacenterMap = forwardRef<DatacenterMapRef, DatacenterMapProps>(
                     {layer === 'connection' && '🔌 Connection Points'}
                     {layer === 'latency' && '⚡ Network Latency'}
                     {layer === 'temperature' && '🌡️ Temperature'}
+                    {layer === 'opposition' && '👥 Community Opposition'}
                   </button>
                 ))}
               </div>
+              {isRawLayer(activeLayer) && (
+                <div className="flex gap-1 mt-2">
+                  {[false, true].map((raw) => (
+                    <button
+                      key={String(raw)}
+                      onClick={() => toggleRawLayer(activeLayer, raw)}
+                      className={`flex-1 px-2 py-1 rounded text-xs transition-colors ${
+                        rawLayers.includes(activeLayer) === raw
+                          ? 'bg-slate-700 text-slate-200'
+                          : 'text-slate-400 hover:text-slate-300 hover:bg-slate-800/50'
+                      }`}
+                    >
+                      {raw ? `Raw (${METRICS[RAW_LAYER_METRICS[activeLayer]].unit})` : 'Normalized'}
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
 
-            {/* Filter Slider */}
-            <div className="border-t border-slate-700 pt-3">
-              <div className="text-sm font-medium text-slate-300 mb-2">
-                Filter: {filterThreshold === 0 ? 'Show All' : `Top ${100 - filterThreshold}%`}
-              </div>
-              <div className="space-y-2">
-                <input
-                  type="range"
-                  min="0"
-                  max="99"
-                  value={filterThreshold}
-                  onChange={(e) => setFilterThreshold(Number(e.target.value))}
-                  className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer slider"
-                />
-                <div className="flex justify-between text-xs text-slate-500">
-                  <span>Show All</span>
-                  <span>Top 1%</span>
+            {/* Opposition overlay */}
+            {activeLayer !== 'opposition' && (
+              <div className="border-t border-slate-700 pt-3">
+                <div className="text-sm font-medium text-slate-300 mb-2">Opposition Overlay</div>
+                <div className="flex gap-1">
+                  {(['off', 'outline', 'hatch'] as OppositionOverlay[]).map((overlay) => (
+                    <button
+                      key={overlay}
+                      onClick={() => setOppositionOverlay(overlay)}
+                      className={`flex-1 px-2 py-1 rounded text-xs capitalize transition-colors ${
+                        oppositionOverlay === overlay
+                          ? 'bg-slate-700 text-slate-200'
+                          : 'text-slate-400 hover:text-slate-300 hover:bg-slate-800/50'
+                      }`}
+                    >
+                      {overlay}
+                    </button>
+                  ))}
                 </div>
               </div>
-            </div>
+            )}
+
+            {/* Highlighted cells */}
+            {highlights.length > 0 && (
+              <div className="border-t border-slate-700 pt-3 flex items-center justify-between gap-3 text-xs">
+                <span className="text-yellow-300">✨ {highlights.length} highlighted</span>
+                <button
+                  onClick={() => setHighlights([])}
+                  className="text-slate-400 hover:text-slate-200 transition-colors"
+                >
+                  Clear
+                </button>
+              </div>
+            )}
+
+            {/* Score Weights */}
+            {activeLayer === 'score' && (
+              <ScoreWeightsPanel weights={scoreWeights} onChange={setScoreWeights} />
+            )}
+
+            {/* Color scale */}
+            {activeLayer !== 'opposition' && (
+              <ColorScalePanel
+                key={`${layerMetricId}:${layerMetric.unit}`}
+                config={scaleConfig}
+                onChange={setScaleConfig}
+                metricId={layerMetricId}
+                metric={layerMetric}
+                domain={colorScale.domain}
+              />
+            )}
+
+            {/* Zoom-dependent aggregation */}
+            <AggregationPanel
+              enabled={aggregationEnabled}
+              onEnabledChange={setAggregationEnabled}
+              config={aggregationConfig}
+              onConfigChange={setAggregationConfig}
+              resolution={isAggregating ? targetResolution : null}
+            />
+
+            {/* Export */}
+            <ExportMenu
+              cellCount={areaData.length}
+              filteredCount={sourceFilteredCells.length}
+              isFilterActive={isFilterActive(filters)}
+              onExport={handleExport}
+            />
+
+            {/* Infrastructure overlays */}
+            <InfrastructurePanel
+              enabled={infrastructureLayers}
+              onToggle={toggleInfrastructureLayer}
+              featureCounts={infrastructureCounts}
+              errors={infrastructureErrors}
+            />
+
+            {/* Neighborhood analysis */}
+            <NeighborhoodPanel
+              ring={neighborhoodRing}
+              onRingChange={setNeighborhoodRing}
+              summary={neighborhood}
+              best={bestNeighborhoods}
+              onFocus={focusNeighborhood}
+            />
+
+            {/* Area of interest */}
+            <AreaPanel
+              area={area}
+              drawMode={drawMode}
+              onDrawModeChange={startDrawing}
+              draftPointCount={draftPoints.length}
+              onFinishPolygon={finishPolygon}
+              onClear={() => setArea(null)}
+              savedAreas={savedAreas}
+              onSave={saveCurrentArea}
+              onApplySaved={applySavedArea}
+              onDeleteSaved={deleteArea}
+              insideCount={areaData.length}
+              totalCount={hexData.length}
+            />
+
+            {/* Filters */}
+            <FilterPanel
+              filters={filters}
+              onChange={setFilters}
+              defaultMetric={layerMetricId}
+              getExtent={getMetricExtent}
+              passCount={passCount}
+              totalCount={displayData.length}
+            />
           </div>
         </div>
 
         {/* Color Legend */}
         <div className="absolute bottom-6 left-6 bg-[#18181b]/95 backdrop-blur-sm text-slate-200 px-4 py-3 rounded-lg shadow-lg border border-slate-800">
-          <div className="flex flex-col gap-3">
-            <div className="text-sm font-medium text-slate-300">Score Range</div>
-            <div className="flex items-center gap-3">
-              <div className="flex flex-col items-center gap-1">
-                <div className="w-4 h-4 rounded" style={{ backgroundColor: 'rgb(255, 100, 50)' }}></div>
-                <span className="text-xs text-slate-400">Low</span>
-                <span className="text-xs text-slate-500">0-30%</span>
-              </div>
-              <div className="flex flex-col items-center gap-1">
-                <div className="w-4 h-4 rounded" style={{ backgroundColor: 'rgb(255, 255, 50)' }}></div>
-                <span className="text-xs text-slate-400">Med</span>
-                <span className="text-xs text-slate-500">30-70%</span>
-              </div>
-              <div className="flex flex-col items-center gap-1">
-                <div className="w-4 h-4 rounded" style={{ backgroundColor: 'rgb(155, 255, 100)' }}></div>
-                <span className="text-xs text-slate-400">High</span>
-                <span className="text-xs text-slate-500">70-100%</span>
+          {snapshotDiff ? (
+            <div className="flex flex-col gap-2">
+              <MapLegend scale={diffScale} metric={diffMetric} noDataCount={diffNoDataCount} />
+              {([['Appeared', APPEARED_COLOR, snapshotDiff.appeared], ['Disappeared', DISAPPEARED_COLOR, snapshotDiff.disappeared]] as const)
+                .map(([label, color, count]) => (
+                  <div key={label} className="flex items-center gap-2 text-xs">
+                    <div className="w-4 h-4 rounded border-2" style={{ borderColor: toCssColor(color) }}></div>
+                    <span className="text-slate-400">{label}</span>
+                    <span className="text-slate-500 ml-auto pl-3">{count} cells</span>
+                  </div>
+                ))}
+            </div>
+          ) : activeLayer === 'opposition' ? (
+            <div className="flex flex-col gap-3">
+              <div className="text-sm font-medium text-slate-300">Community Opposition</div>
+              <div className="flex items-center gap-3">
+                {OPPOSITION_LEVELS.map((level) => (
+                  <div key={level} className="flex flex-col items-center gap-1">
+                    <div className="w-4 h-4 rounded" style={{ backgroundColor: toCssColor(OPPOSITION_COLORS[level]) }}></div>
+                    <span className="text-xs text-slate-400 capitalize">{level}</span>
+                  </div>
+                ))}
+                <div className="flex flex-col items-center gap-1">
+                  <div className="w-4 h-4 rounded" style={{ backgroundColor: toCssColor(NO_DATA_COLOR) }}></div>
+                  <span className="text-xs text-slate-400">No data</span>
+                </div>
               </div>
             </div>
-          </div>
+          ) : (
+            <MapLegend scale={colorScale} metric={layerMetric} noDataCount={noDataCount} />
+          )}
+          {showOppositionOverlay && (
+            <div className="flex items-center gap-3 mt-3 pt-3 border-t border-slate-700 text-xs text-slate-400">
+              <span>Opposition {oppositionOverlay}</span>
+              {(['medium', 'high'] as const).map((level) => (
+                <span key={level} className="flex items-center gap-1 capitalize">
+                  <span className="w-3 h-3 rounded-sm border-2" style={{ borderColor: toCssColor(OPPOSITION_COLORS[level]) }}></span>
+                  {level}
+                </span>
+              ))}
+            </div>
+          )}
+          {infrastructureLayers.some((layer) => infrastructureData[layer]) && (
+            <div className="flex flex-col gap-2 mt-3 pt-3 border-t border-slate-700 text-xs text-slate-400">
+              {infrastructureLayers.filter((layer) => infrastructureData[layer]).map((layer) => (
+                <div key={layer}>
+                  <div className="text-slate-300 mb-1">
+                    {INFRASTRUCTURE_LAYERS[layer].label}
+                    {layer === 'power-plants' && <span className="text-slate-500"> · sized by capacity</span>}
+                  </div>
+                  <div className="flex flex-wrap gap-x-3 gap-y-1">
+                    {Array.from(new Set(infrastructureData[layer]?.map((f) => f.kind))).map((kind) => (
+                      <span key={kind} className="flex items-center gap-1">
+                        <span
+                          className={layer === 'transmission-lines' ? 'w-4 h-0.5' : 'w-3 h-3 rounded-full'}
+                          style={{ backgroundColor: toCssColor(getKindColor(layer, kind)) }}
+                        ></span>
+                        {INFRASTRUCTURE_LAYERS[layer].kinds[kind].label}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          {neighborhoodRing !== null && (
+            <div className="flex items-center gap-3 mt-3 pt-3 border-t border-slate-700 text-xs text-slate-400">
+              <span className="flex items-center gap-1">
+                <span className="w-3 h-3 rounded-sm border-2 border-sky-400"></span>
+                {neighborhoodRing}-ring
+              </span>
+              <span className="flex items-center gap-1">
+                <span className="w-3 h-3 rounded-sm border-2 border-emerald-400"></span>
+                Best neighborhoods
+              </span>
+            </div>
+          )}
         </div>
 
+        {/* Analysis history, shown once there is more than one dataset */}
+        {snapshots.length > 1 && (
+          <SnapshotTimeline
+            snapshots={snapshots}
+            currentId={currentSnapshotId}
+            onRestore={restoreSnapshot}
+            diff={diffConfig}
+            onDiffChange={setDiffConfig}
+            diffSummary={snapshotDiff}
+            defaultMetric={layerMetricId}
+          />
+        )}
+
+        {/* Imported candidate sites */}
+        <SitesPanel
+          rankings={siteRankings}
+          aiCellCount={hexData.length}
+          status={siteStatus}
+          message={siteMessage}
+          onImportFile={importSitesFile}
+          onFocusSite={(site) => flyToCells(site.cells)}
+          onClear={clearSites}
+        />
+
+        {/* File drop target */}
+        {isDraggingFile && (
+          <div className="absolute inset-0 bg-cyan-500/10 border-2 border-dashed border-cyan-400 flex items-center justify-center z-50 pointer-events-none">
+            <div className="bg-[#18181b]/95 text-cyan-200 px-6 py-4 rounded-lg shadow-lg border border-cyan-700">
+              Drop a CSV or GeoJSON file to import candidate sites
+            </div>
+          </div>
+        )}
+
+        {/* Selected cell details */}
+        {activeHex && (
+          <HexDetailPanel
+            hexData={displayData}
+            selectedHexes={selectedHexes}
+            activeHex={activeHex}
+            getScore={getScore}
+            isWeighted={scoreWeights !== null}
+            countedMetrics={countedMetricIds}
+            onActiveHexChange={setActiveHex}
+            onRemove={removeFromSelection}
+            onClear={clearSelection}
+            onCompare={() => setShowComparison(true)}
+          />
+        )}
+
+        {/* Side-by-side comparison of the selected cells */}
+        {showComparison && comparedCells.length >= 2 && (
+          <HexComparison
+            cells={comparedCells}
+            getScore={getScore}
+            isWeighted={scoreWeights !== null}
+            countedMetrics={countedMetricIds}
+            onFocusHex={focusHex}
+            onClose={() => setShowComparison(false)}
+          />
+        )}
+
         {/* Empty state message */}
-        {hexData.length === 0 && !isLoading && (
+        {hexData.length === 0 && !isLoading && !activeHex && (
           <div className="absolute top-6 right-6 bg-[#18181b]/95 backdrop-blur-sm text-slate-200 px-4 py-3 rounded-lg shadow-lg border border-slate-800">
             <div className="flex items-center gap-2">
               <div className="w-2 h-2 bg-slate-400 rounded-full"></div>
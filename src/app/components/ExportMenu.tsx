@@ -0,0 +1,67 @@
+'use client';
+
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import { ExportFormat } from '@/lib/export';
+
+interface ExportMenuProps {
+  cellCount: number;
+  filteredCount: number;
+  isFilterActive: boolean;
+  onExport: (format: ExportFormat, applyFilter: boolean) => void;
+}
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'geojson', label: 'GeoJSON' },
+  { format: 'csv', label: 'CSV' },
+  { format: 'kml', label: 'KML' },
+];
+
+export default function ExportMenu({ cellCount, filteredCount, isFilterActive, onExport }: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [applyFilter, setApplyFilter] = useState(true);
+
+  const exportCount = isFilterActive && applyFilter ? filteredCount : cellCount;
+
+  return (
+    <div className="border-t border-slate-700 pt-3">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={cellCount === 0}
+        className="flex items-center gap-2 text-sm font-medium text-slate-300 hover:text-slate-100 disabled:opacity-50 transition-colors"
+      >
+        <Download className="h-4 w-4" />
+        Export data
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 space-y-2 text-xs">
+          {isFilterActive && (
+            <label className="flex items-center gap-2 text-slate-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={applyFilter}
+                onChange={(e) => setApplyFilter(e.target.checked)}
+                className="accent-slate-400"
+              />
+              Only cells passing the filter
+            </label>
+          )}
+          <div className="flex gap-1">
+            {FORMATS.map(({ format, label }) => (
+              <button
+                key={format}
+                onClick={() => onExport(format, isFilterActive && applyFilter)}
+                disabled={exportCount === 0}
+                className="px-2 py-1 rounded bg-slate-800/50 text-slate-300 hover:bg-slate-700 hover:text-slate-100 disabled:opacity-50 transition-colors"
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="text-slate-500">{exportCount} cells</div>
+        </div>
+      )}
+    </div>
+  );
+}
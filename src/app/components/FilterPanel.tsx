@@ -0,0 +1,199 @@
+'use client';
+
+import { Plus, X } from 'lucide-react';
+import { NUMERIC_METRICS, NumericMetric } from '@/lib/aggregation';
+import { OPPOSITION_LEVELS, Opposition } from '@/lib/hexagons';
+import { METRICS, formatMetricValue } from '@/lib/metrics';
+import { EMPTY_FILTERS, FILTER_SLOTS, MapFilters, RangeFilter, RangeMode, describeRange, isFilterActive } from '@/lib/filters';
+
+interface FilterPanelProps {
+  filters: MapFilters;
+  onChange: (filters: MapFilters) => void;
+  defaultMetric: NumericMetric;                       // metric of the active layer
+  getExtent: (metric: NumericMetric) => [number, number]; // value range on the map
+  passCount: number;
+  totalCount: number;
+}
+
+// Slider step in stored units, from the metric's display precision
+function valueStep(metric: NumericMetric): number {
+  const { displayScale, digits } = METRICS[metric];
+  return 10 ** -digits / displayScale;
+}
+
+function fullRange(metric: NumericMetric, mode: RangeMode, getExtent: FilterPanelProps['getExtent']): [number, number] {
+  return mode === 'percentile' ? [0, 1] : getExtent(metric);
+}
+
+// Two thumbs over one track: each input only catches pointer events on its thumb
+function DualRange({ min, max, step, value, onChange }: {
+  min: number;
+  max: number;
+  step: number;
+  value: [number, number];
+  onChange: (value: [number, number]) => void;
+}) {
+  const [low, high] = value;
+  const span = max - min || 1;
+  return (
+    <div className="relative h-4">
+      <div className="absolute top-1.5 left-0 right-0 h-1 rounded bg-slate-700"></div>
+      <div
+        className="absolute top-1.5 h-1 rounded bg-blue-500"
+        style={{ left: `${((low - min) / span) * 100}%`, right: `${100 - ((high - min) / span) * 100}%` }}
+      ></div>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={low}
+        onChange={(e) => onChange([Math.min(Number(e.target.value), high), high])}
+        className="dual-range absolute inset-0 w-full appearance-none bg-transparent pointer-events-none"
+      />
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={high}
+        onChange={(e) => onChange([low, Math.max(Number(e.target.value), low)])}
+        className="dual-range absolute inset-0 w-full appearance-none bg-transparent pointer-events-none"
+      />
+    </div>
+  );
+}
+
+export default function FilterPanel({ filters, onChange, defaultMetric, getExtent, passCount, totalCount }: FilterPanelProps) {
+  const updateRange = (index: number, range: RangeFilter) => {
+    onChange({ ...filters, ranges: filters.ranges.map((r, i) => (i === index ? range : r)) });
+  };
+
+  const addRange = () => {
+    onChange({
+      ...filters,
+      ranges: [...filters.ranges, { metric: defaultMetric, mode: 'percentile', min: 0.8, max: 1 }]
+    });
+  };
+
+  const toggleOpposition = (level: Opposition) => {
+    const excluded = filters.excludedOpposition.includes(level)
+      ? filters.excludedOpposition.filter((l) => l !== level)
+      : [...filters.excludedOpposition, level];
+    onChange({ ...filters, excludedOpposition: excluded });
+  };
+
+  return (
+    <div className="border-t border-slate-700 pt-3">
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <div className="text-sm font-medium text-slate-300">Filters</div>
+        {isFilterActive(filters) && (
+          <button
+            onClick={() => onChange(EMPTY_FILTERS)}
+            className="text-xs text-slate-400 hover:text-slate-200 transition-colors"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="space-y-3 text-xs max-w-[220px]">
+        {filters.ranges.map((range, index) => {
+          const metric = METRICS[range.metric];
+          const [min, max] = fullRange(range.metric, range.mode, getExtent);
+          return (
+            <div key={index} className="space-y-1">
+              <div className="flex items-center gap-1">
+                <select
+                  value={range.metric}
+                  onChange={(e) => {
+                    const next = e.target.value as NumericMetric;
+                    const [low, high] = fullRange(next, range.mode, getExtent);
+                    updateRange(index, { ...range, metric: next, min: low, max: high });
+                  }}
+                  className="flex-1 min-w-0 bg-slate-800 text-slate-200 rounded px-1 py-0.5 border border-slate-700"
+                >
+                  {NUMERIC_METRICS.map((m) => (
+                    <option key={m} value={m}>{METRICS[m].label} ({METRICS[m].unit})</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => {
+                    const mode: RangeMode = range.mode === 'percentile' ? 'value' : 'percentile';
+                    const [low, high] = fullRange(range.metric, mode, getExtent);
+                    updateRange(index, { ...range, mode, min: low, max: high });
+                  }}
+                  title={range.mode === 'percentile' ? 'Ranking the cells on the map' : 'Filtering by value'}
+                  className="px-1.5 py-0.5 rounded bg-slate-800 text-slate-300 hover:bg-slate-700 transition-colors"
+                >
+                  {range.mode === 'percentile' ? 'Pct' : metric.unit}
+                </button>
+                <button
+                  onClick={() => onChange({ ...filters, ranges: filters.ranges.filter((_, i) => i !== index) })}
+                  aria-label="Remove filter"
+                  className="p-0.5 text-slate-500 hover:text-slate-200 transition-colors"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </div>
+              <DualRange
+                min={min}
+                max={max}
+                step={range.mode === 'percentile' ? 0.01 : valueStep(range.metric)}
+                value={[Math.max(min, range.min), Math.min(max, range.max)]}
+                onChange={([low, high]) => updateRange(index, { ...range, min: low, max: high })}
+              />
+              <div className="flex justify-between text-slate-500">
+                <span>
+                  {range.mode === 'percentile' ? `${Math.round(range.min * 100)}th pct` : formatMetricValue(metric, range.min)}
+                </span>
+                <span>
+                  {range.mode === 'percentile' ? `${Math.round(range.max * 100)}th pct` : formatMetricValue(metric, range.max)}
+                </span>
+              </div>
+              <div className="text-slate-400">{describeRange(range)}</div>
+            </div>
+          );
+        })}
+
+        {filters.ranges.length < FILTER_SLOTS && (
+          <button
+            onClick={addRange}
+            className="flex items-center gap-1 text-slate-400 hover:text-slate-200 transition-colors"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Add range filter
+          </button>
+        )}
+
+        <div>
+          <div className="text-slate-400 mb-1">Opposition</div>
+          <div className="flex gap-1">
+            {OPPOSITION_LEVELS.map((level) => {
+              const shown = !filters.excludedOpposition.includes(level);
+              return (
+                <button
+                  key={level}
+                  onClick={() => toggleOpposition(level)}
+                  className={`flex-1 px-2 py-1 rounded capitalize transition-colors ${
+                    shown
+                      ? 'bg-slate-700 text-slate-200'
+                      : 'text-slate-500 line-through hover:text-slate-300 hover:bg-slate-800/50'
+                  }`}
+                >
+                  {level}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div className={passCount === 0 && totalCount > 0 ? 'text-amber-400' : 'text-slate-400'}>
+          {isFilterActive(filters)
+            ? `${passCount.toLocaleString()} of ${totalCount.toLocaleString()} cells pass`
+            : `Showing all ${totalCount.toLocaleString()} cells`}
+        </div>
+      </div>
+    </div>
+  );
+}
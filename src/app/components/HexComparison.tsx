@@ -0,0 +1,182 @@
+'use client';
+
+import { X, Crosshair } from 'lucide-react';
+import type { HexData } from '@/lib/hexagons';
+import type { NumericMetric } from '@/lib/aggregation';
+import { formatCellCount } from '@/lib/metrics';
+
+interface HexComparisonProps {
+  cells: HexData[];
+  getScore: (d: HexData) => number;
+  isWeighted: boolean;
+  countedMetrics: NumericMetric[]; // aggregated as cell counts
+  onFocusHex: (hex: string) => void;
+  onClose: () => void;
+}
+
+type ComparisonRow = {
+  label: string;
+  getValue: (d: HexData) => number | undefined;
+  format: (value: number) => string;
+  higherIsBetter: boolean;
+};
+
+const OPPOSITION_RANK = { low: 0, medium: 1, high: 2 } as const;
+
+// One distinct stroke per compared cell
+const SERIES_COLORS = ['#38bdf8', '#f472b6', '#a3e635', '#fb923c', '#c084fc', '#facc15'];
+
+const RADAR_AXES: { label: string; getValue: (d: HexData) => number | undefined }[] = [
+  { label: 'Connection', getValue: (d) => d.connection_normalized_score },
+  { label: 'Latency', getValue: (d) => d.latency_normalized_score },
+  { label: 'Temperature', getValue: (d) => d.temperature_normalized_score },
+];
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+function RadarChart({ cells }: { cells: HexData[] }) {
+  const size = 220;
+  const center = size / 2;
+  const radius = 80;
+
+  const pointFor = (axisIndex: number, value: number): [number, number] => {
+    const angle = -Math.PI / 2 + (axisIndex * 2 * Math.PI) / RADAR_AXES.length;
+    return [center + Math.cos(angle) * radius * value, center + Math.sin(angle) * radius * value];
+  };
+
+  return (
+    <svg width={size} height={size} viewBox={`0 0 ${size} ${size}`} className="flex-shrink-0">
+      {/* Grid rings */}
+      {[0.25, 0.5, 0.75, 1].map((ring) => (
+        <polygon
+          key={ring}
+          points={RADAR_AXES.map((_, i) => pointFor(i, ring).join(',')).join(' ')}
+          fill="none"
+          stroke="#334155"
+          strokeWidth={1}
+        />
+      ))}
+      {/* Axes and labels */}
+      {RADAR_AXES.map((axis, i) => {
+        const [x, y] = pointFor(i, 1);
+        const [labelX, labelY] = pointFor(i, 1.18);
+        return (
+          <g key={axis.label}>
+            <line x1={center} y1={center} x2={x} y2={y} stroke="#334155" strokeWidth={1} />
+            <text x={labelX} y={labelY} fill="#94a3b8" fontSize={11} textAnchor="middle" dominantBaseline="middle">
+              {axis.label}
+            </text>
+          </g>
+        );
+      })}
+      {/* One polygon per cell */}
+      {cells.map((cell, cellIndex) => (
+        <polygon
+          key={cell.hex}
+          points={RADAR_AXES.map((axis, i) => pointFor(i, Math.max(0, Math.min(1, axis.getValue(cell) ?? 0))).join(',')).join(' ')}
+          fill={SERIES_COLORS[cellIndex % SERIES_COLORS.length]}
+          fillOpacity={0.12}
+          stroke={SERIES_COLORS[cellIndex % SERIES_COLORS.length]}
+          strokeWidth={2}
+        />
+      ))}
+    </svg>
+  );
+}
+
+export default function HexComparison({ cells, getScore, isWeighted, countedMetrics, onFocusHex, onClose }: HexComparisonProps) {
+  const formatRaw = (metric: NumericMetric, unit: string) => (v: number): string =>
+    countedMetrics.includes(metric) ? formatCellCount(v) : `${v}${unit}`;
+
+  const rows: ComparisonRow[] = [
+    { label: isWeighted ? '🎯 Weighted Score' : '🎯 Score', getValue: getScore, format: formatPercent, higherIsBetter: true },
+    ...(isWeighted ? [{ label: 'Backend Score', getValue: (d: HexData) => d.score, format: formatPercent, higherIsBetter: true }] : []),
+    { label: '🔌 Connection Points', getValue: (d) => d.connection_points, format: formatRaw('connection_points', ''), higherIsBetter: true },
+    { label: 'Connection Score', getValue: (d) => d.connection_normalized_score, format: formatPercent, higherIsBetter: true },
+    { label: '⚡ Latency', getValue: (d) => d.latency_ms, format: formatRaw('latency_ms', ' ms'), higherIsBetter: false },
+    { label: 'Latency Score', getValue: (d) => d.latency_normalized_score, format: formatPercent, higherIsBetter: true },
+    { label: '🌡️ Temperature', getValue: (d) => d.avg_temperature, format: formatRaw('avg_temperature', '°C'), higherIsBetter: false },
+    { label: 'Temperature Score', getValue: (d) => d.temperature_normalized_score, format: formatPercent, higherIsBetter: true },
+    {
+      label: '👥 Opposition',
+      getValue: (d) => (d.opposition ? OPPOSITION_RANK[d.opposition] : undefined),
+      format: (v) => ['Low', 'Medium', 'High'][v],
+      higherIsBetter: false
+    },
+  ];
+
+  const bestValue = (row: ComparisonRow): number | undefined => {
+    const values = cells.map(row.getValue).filter((v): v is number => v !== undefined && !isNaN(v));
+    if (values.length < 2) return undefined;
+    return row.higherIsBetter ? Math.max(...values) : Math.min(...values);
+  };
+
+  return (
+    <div className="absolute bottom-6 left-1/2 -translate-x-1/2 max-w-[calc(100%-3rem)] bg-[#18181b]/95 backdrop-blur-sm text-slate-200 px-4 py-3 rounded-lg shadow-lg border border-slate-800 z-40">
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-sm font-medium text-slate-300">Compare {cells.length} cells</div>
+        <button
+          onClick={onClose}
+          className="p-1 rounded hover:bg-slate-800/50 text-slate-400 hover:text-slate-200 transition-colors"
+          title="Close comparison"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="flex gap-4 items-start">
+        <RadarChart cells={cells} />
+
+        <div className="overflow-x-auto">
+          <table className="text-xs border-collapse">
+            <thead>
+              <tr>
+                <th className="text-left font-normal text-slate-500 pr-4 pb-2">Metric</th>
+                {cells.map((cell, cellIndex) => (
+                  <th key={cell.hex} className="px-3 pb-2 font-normal">
+                    <button
+                      onClick={() => onFocusHex(cell.hex)}
+                      className="flex items-center gap-1 font-mono text-slate-200 hover:text-sky-300 transition-colors"
+                      title={`Show ${cell.hex} on the map`}
+                    >
+                      <span
+                        className="inline-block w-2 h-2 rounded-full"
+                        style={{ backgroundColor: SERIES_COLORS[cellIndex % SERIES_COLORS.length] }}
+                      />
+                      {cell.hex.slice(-6).toUpperCase()}
+                      <Crosshair className="h-3 w-3" />
+                    </button>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => {
+                const best = bestValue(row);
+                return (
+                  <tr key={row.label} className="border-t border-slate-800">
+                    <td className="text-slate-400 pr-4 py-1.5 whitespace-nowrap">{row.label}</td>
+                    {cells.map((cell) => {
+                      const value = row.getValue(cell);
+                      const isBest = best !== undefined && value === best;
+                      return (
+                        <td
+                          key={cell.hex}
+                          className={`px-3 py-1.5 text-right whitespace-nowrap ${
+                            isBest ? 'text-emerald-400 font-semibold' : 'text-slate-200'
+                          }`}
+                        >
+                          {value === undefined || isNaN(value) ? '—' : row.format(value)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import { X, Columns3 } from 'lucide-react';
+import { cellArea, cellToLatLng, getResolution } from 'h3-js';
+import { formatPercentile, percentileRank } from '@/lib/stats';
+import type { HexData } from '@/lib/hexagons';
+import type { NumericMetric } from '@/lib/aggregation';
+import { formatCellCount } from '@/lib/metrics';
+
+interface HexDetailPanelProps {
+  hexData: HexData[];
+  selectedHexes: string[];
+  activeHex: string;
+  getScore: (d: HexData) => number;
+  isWeighted: boolean;
+  countedMetrics: NumericMetric[]; // aggregated as cell counts
+  onActiveHexChange: (hex: string) => void;
+  onRemove: (hex: string) => void;
+  onClear: () => void;
+  onCompare?: () => void;
+}
+
+type MetricRow = {
+  label: string;
+  raw?: string;
+  normalized?: number;
+  values: (number | undefined)[];
+};
+
+function formatScore(value?: number): string {
+  return value === undefined ? '—' : `${(value * 100).toFixed(0)}%`;
+}
+
+export default function HexDetailPanel({
+  hexData,
+  selectedHexes,
+  activeHex,
+  getScore,
+  isWeighted,
+  countedMetrics,
+  onActiveHexChange,
+  onRemove,
+  onClear,
+  onCompare
+}: HexDetailPanelProps) {
+  const cell = hexData.find((d) => d.hex === activeHex);
+
+  const [lat, lng] = cellToLatLng(activeHex);
+  const areaKm2 = cellArea(activeHex, 'km2');
+  const resolution = getResolution(activeHex);
+
+  const formatRaw = (metric: NumericMetric, unit: string): string | undefined => {
+    const value = cell?.[metric];
+    if (value === undefined) return undefined;
+    return countedMetrics.includes(metric) ? formatCellCount(value) : `${value}${unit}`;
+  };
+
+  const rows: MetricRow[] = cell ? [
+    {
+      label: '🔌 Connection',
+      raw: formatRaw('connection_points', ' points'),
+      normalized: cell.connection_normalized_score,
+      values: hexData.map((d) => d.connection_normalized_score)
+    },
+    {
+      label: '⚡ Latency',
+      raw: formatRaw('latency_ms', ' ms'),
+      normalized: cell.latency_normalized_score,
+      values: hexData.map((d) => d.latency_normalized_score)
+    },
+    {
+      label: '🌡️ Temperature',
+      raw: formatRaw('avg_temperature', '°C'),
+      normalized: cell.temperature_normalized_score,
+      values: hexData.map((d) => d.temperature_normalized_score)
+    }
+  ] : [];
+
+  const score = cell ? getScore(cell) : undefined;
+  const scoreRank = score !== undefined ? percentileRank(hexData.map(getScore), score) : undefined;
+
+  return (
+    <div className="absolute top-6 right-6 w-80 max-h-[calc(100vh-3rem)] overflow-y-auto bg-[#18181b]/95 backdrop-blur-sm text-slate-200 px-4 py-3 rounded-lg shadow-lg border border-slate-800">
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-sm font-medium text-slate-300">
+          {selectedHexes.length > 1 ? `${selectedHexes.length} cells selected` : 'Selected cell'}
+        </div>
+        <button
+          onClick={onClear}
+          className="p-1 rounded hover:bg-slate-800/50 text-slate-400 hover:text-slate-200 transition-colors"
+          title="Clear selection"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {/* Multi-selection chips */}
+      {selectedHexes.length > 1 && (
+        <div className="flex flex-wrap gap-1 mb-3">
+          {selectedHexes.map((hex) => (
+            <span
+              key={hex}
+              className={`flex items-center gap-1 pl-2 pr-1 py-0.5 rounded text-xs font-mono ${
+                hex === activeHex ? 'bg-slate-700 text-slate-200' : 'bg-slate-800/50 text-slate-400'
+              }`}
+            >
+              <button onClick={() => onActiveHexChange(hex)}>{hex.slice(-6).toUpperCase()}</button>
+              <button onClick={() => onRemove(hex)} className="hover:text-slate-200">
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+          {onCompare && (
+            <button
+              onClick={onCompare}
+              className="flex items-center gap-1 px-2 py-0.5 rounded text-xs text-sky-300 hover:bg-slate-800/50 transition-colors"
+            >
+              <Columns3 className="h-3 w-3" />
+              Compare
+            </button>
+          )}
+        </div>
+      )}
+
+      {!cell ? (
+        <div className="text-xs text-slate-500">This cell is not part of the current dataset.</div>
+      ) : (
+        <div className="space-y-3 text-xs">
+          <div className="flex items-center justify-between">
+            <span className="text-slate-400">{isWeighted ? 'Weighted Score' : 'Score'}</span>
+            <span className="text-base font-bold text-slate-100">{formatScore(score)}</span>
+          </div>
+          {isWeighted && (
+            <div className="flex items-center justify-between">
+              <span className="text-slate-400">Backend Score</span>
+              <span className="text-slate-200">{formatScore(cell.score)}</span>
+            </div>
+          )}
+          {scoreRank !== undefined && (
+            <div className="flex items-center justify-between">
+              <span className="text-slate-400">Rank in dataset</span>
+              <span className="text-slate-200">{formatPercentile(scoreRank)} of {hexData.length}</span>
+            </div>
+          )}
+
+          <div className="border-t border-slate-700 pt-3 space-y-2">
+            <div className="grid grid-cols-[1fr_auto_auto] gap-x-3 text-slate-500">
+              <span>Metric</span>
+              <span className="text-right">Raw</span>
+              <span className="text-right">Normalized</span>
+            </div>
+            {rows.map((row) => (
+              <div key={row.label} className="grid grid-cols-[1fr_auto_auto] gap-x-3 items-center">
+                <span className="text-slate-300">{row.label}</span>
+                <span className="text-right text-slate-200">{row.raw || '—'}</span>
+                <span
+                  className="text-right text-slate-200"
+                  title={row.normalized !== undefined
+                    ? formatPercentile(percentileRank(row.values.filter((v): v is number => v !== undefined), row.normalized))
+                    : undefined}
+                >
+                  {formatScore(row.normalized)}
+                </span>
+              </div>
+            ))}
+            <div className="grid grid-cols-[1fr_auto] gap-x-3 items-center">
+              <span className="text-slate-300">👥 Opposition</span>
+              <span className="text-right text-slate-200 capitalize">{cell.opposition || '—'}</span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="border-t border-slate-700 mt-3 pt-3 space-y-1 text-xs">
+        <div className="flex justify-between gap-3">
+          <span className="text-slate-400">H3 index</span>
+          <span className="font-mono text-slate-200 select-all">{activeHex}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-slate-400">Resolution</span>
+          <span className="text-slate-200">{resolution}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-slate-400">Centroid</span>
+          <span className="text-slate-200">{lat.toFixed(5)}, {lng.toFixed(5)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-slate-400">Area</span>
+          <span className="text-slate-200">{areaKm2.toFixed(2)} km²</span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import { INFRASTRUCTURE_LAYERS, INFRASTRUCTURE_LAYER_IDS, InfrastructureLayerId } from '@/lib/infrastructure';
+
+interface InfrastructurePanelProps {
+  enabled: InfrastructureLayerId[];
+  onToggle: (layer: InfrastructureLayerId) => void;
+  featureCounts: Partial<Record<InfrastructureLayerId, number>>; // set once a layer has loaded
+  errors: Partial<Record<InfrastructureLayerId, string>>;
+}
+
+export default function InfrastructurePanel({ enabled, onToggle, featureCounts, errors }: InfrastructurePanelProps) {
+  return (
+    <div className="border-t border-slate-700 pt-3">
+      <div className="text-sm font-medium text-slate-300 mb-2">Infrastructure</div>
+      <div className="space-y-1 text-xs max-w-[220px]">
+        {INFRASTRUCTURE_LAYER_IDS.map((layer) => {
+          const isEnabled = enabled.includes(layer);
+          const count = featureCounts[layer];
+          return (
+            <div key={layer}>
+              <label className="flex items-center gap-2 text-slate-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={isEnabled}
+                  onChange={() => onToggle(layer)}
+                  className="accent-slate-400"
+                />
+                <span className="flex-1">{INFRASTRUCTURE_LAYERS[layer].label}</span>
+                {isEnabled && !errors[layer] && (
+                  <span className="text-slate-500">{count === undefined ? 'Loading...' : count}</span>
+                )}
+              </label>
+              {isEnabled && errors[layer] && <div className="text-red-400 ml-5">{errors[layer]}</div>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { NO_DATA_COLOR, toCssColor } from '@/lib/colors';
+import { MetricDefinition, formatMetricValue } from '@/lib/metrics';
+import { ColorScale } from '@/lib/scales';
+
+interface MapLegendProps {
+  scale: ColorScale;
+  metric: MetricDefinition;
+  noDataCount?: number; // cells without a value for the metric
+}
+
+// Legend generated from the active color scale: a gradient for linear scales,
+// one swatch per class otherwise
+export default function MapLegend({ scale, metric, noDataCount = 0 }: MapLegendProps) {
+  const format = (value: number) => formatMetricValue(metric, value);
+
+  const noData = noDataCount > 0 && (
+    <div className="flex items-center gap-2 text-xs">
+      <div className="w-4 h-4 rounded" style={{ backgroundColor: toCssColor(NO_DATA_COLOR) }}></div>
+      <span className="text-slate-400">No data</span>
+      <span className="text-slate-500 ml-auto pl-3">{noDataCount} cells</span>
+    </div>
+  );
+
+  if (scale.classification === 'linear') {
+    const gradient = scale.items.map((item) => toCssColor(item.color)).join(', ');
+    return (
+      <div className="flex flex-col gap-2 w-56">
+        <div className="text-sm font-medium text-slate-300">{metric.label} ({metric.unit})</div>
+        <div className="h-3 rounded" style={{ background: `linear-gradient(to right, ${gradient})` }}></div>
+        <div className="flex justify-between text-xs text-slate-500">
+          {scale.items.map((item, i) => (
+            <span key={i}>{format(item.from)}</span>
+          ))}
+        </div>
+        {noData}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="text-sm font-medium text-slate-300">
+        {metric.label} ({metric.unit}){scale.classification === 'quantile' && ' · quantiles'}
+        {scale.classification === 'custom' && ' · custom breaks'}
+      </div>
+      <div className="flex flex-col gap-1">
+        {scale.items.map((item, i) => (
+          <div key={i} className="flex items-center gap-2 text-xs">
+            <div className="w-4 h-4 rounded" style={{ backgroundColor: toCssColor(item.color) }}></div>
+            <span className="text-slate-400">
+              {item.from === item.to ? format(item.from) : `${format(item.from)} – ${format(item.to)}`}
+            </span>
+            {item.count !== undefined && <span className="text-slate-500 ml-auto pl-3">{item.count} cells</span>}
+          </div>
+        ))}
+        {noData}
+      </div>
+    </div>
+  );
+}
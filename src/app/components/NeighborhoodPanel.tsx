@@ -0,0 +1,88 @@
+'use client';
+
+import { NeighborhoodSummary, RING_SIZES } from '@/lib/neighborhoods';
+
+interface NeighborhoodPanelProps {
+  ring: number | null;                  // k, null when neighborhood mode is off
+  onRingChange: (ring: number | null) => void;
+  summary: NeighborhoodSummary | null;  // around the selected cell
+  best: NeighborhoodSummary[];
+  onFocus: (center: string) => void;
+}
+
+function formatScore(value?: number): string {
+  return value === undefined ? '—' : `${(value * 100).toFixed(0)}%`;
+}
+
+export default function NeighborhoodPanel({ ring, onRingChange, summary, best, onFocus }: NeighborhoodPanelProps) {
+  return (
+    <div className="border-t border-slate-700 pt-3">
+      <div className="flex items-center justify-between gap-3 mb-2">
+        <div className="text-sm font-medium text-slate-300">Neighborhood</div>
+        <select
+          value={ring ?? 'off'}
+          onChange={(e) => onRingChange(e.target.value === 'off' ? null : Number(e.target.value))}
+          className="bg-slate-800 text-slate-200 rounded px-1 py-0.5 border border-slate-700 text-xs"
+        >
+          <option value="off">Off</option>
+          {RING_SIZES.map((k) => (
+            <option key={k} value={k}>{k}-ring</option>
+          ))}
+        </select>
+      </div>
+
+      {ring !== null && (
+        <div className="space-y-3 text-xs max-w-[220px]">
+          {summary ? (
+            <div className="space-y-1">
+              <div className="flex justify-between">
+                <span className="text-slate-400">Cells with data</span>
+                <span className="text-slate-200">{summary.covered} of {summary.cells.length}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-slate-400">Mean score</span>
+                <span className="text-slate-200">{formatScore(summary.meanScore)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-slate-400">Weakest cell</span>
+                <span className="text-slate-200">{formatScore(summary.minScore)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-slate-400">High opposition</span>
+                <span className="text-slate-200">{formatScore(summary.highOppositionShare)}</span>
+              </div>
+            </div>
+          ) : (
+            <div className="text-slate-500">Click a cell to summarize its neighborhood</div>
+          )}
+
+          <div>
+            <div className="text-slate-400 mb-1">Best {ring}-ring neighborhoods</div>
+            {best.length === 0 ? (
+              <div className="text-slate-500">Not enough contiguous cells in the dataset</div>
+            ) : (
+              <div className="space-y-0.5">
+                {best.map((neighborhood, i) => (
+                  <button
+                    key={neighborhood.center}
+                    onClick={() => onFocus(neighborhood.center)}
+                    className={`w-full flex justify-between gap-2 px-2 py-0.5 rounded transition-colors ${
+                      summary?.center === neighborhood.center
+                        ? 'bg-slate-700 text-slate-200'
+                        : 'text-slate-400 hover:text-slate-300 hover:bg-slate-800/50'
+                    }`}
+                  >
+                    <span>{i + 1}. <span className="font-mono">{neighborhood.center.slice(-6).toUpperCase()}</span></span>
+                    <span>
+                      {formatScore(neighborhood.meanScore)} mean · {formatScore(neighborhood.minScore)} min
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import {
+  ScoreFactor,
+  ScoreWeights,
+  SCORE_FACTORS,
+  WEIGHT_PRESETS,
+  findMatchingPreset,
+  normalizeWeights,
+} from '@/lib/scoring';
+
+interface ScoreWeightsPanelProps {
+  weights: ScoreWeights | null;
+  onChange: (weights: ScoreWeights | null) => void;
+}
+
+const FACTOR_LABELS: Record<ScoreFactor, string> = {
+  connection: '🔌 Connection',
+  latency: '⚡ Latency',
+  temperature: '🌡️ Temperature',
+};
+
+const DEFAULT_CUSTOM_WEIGHTS: ScoreWeights = { connection: 1, latency: 1, temperature: 1 };
+
+export default function ScoreWeightsPanel({ weights, onChange }: ScoreWeightsPanelProps) {
+  const activePreset = findMatchingPreset(weights);
+  const shares = weights ? normalizeWeights(weights) : null;
+
+  const handleFactorChange = (factor: ScoreFactor, value: number) => {
+    const base = weights || DEFAULT_CUSTOM_WEIGHTS;
+    onChange({ ...base, [factor]: value / 100 });
+  };
+
+  return (
+    <div className="border-t border-slate-700 pt-3">
+      <div className="text-sm font-medium text-slate-300 mb-2">
+        Score Weights{activePreset ? '' : ' (custom)'}
+      </div>
+      <div className="flex flex-wrap gap-1 mb-3 max-w-[220px]">
+        {WEIGHT_PRESETS.map((preset) => (
+          <button
+            key={preset.id}
+            onClick={() => onChange(preset.weights && { ...preset.weights })}
+            className={`px-2 py-1 rounded text-xs transition-colors ${
+              activePreset?.id === preset.id
+                ? 'bg-slate-700 text-slate-200'
+                : 'text-slate-400 hover:text-slate-300 hover:bg-slate-800/50'
+            }`}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+      <div className="space-y-2">
+        {SCORE_FACTORS.map((factor) => (
+          <div key={factor}>
+            <div className="flex justify-between text-xs text-slate-400">
+              <span>{FACTOR_LABELS[factor]}</span>
+              <span>{shares ? `${Math.round(shares[factor] * 100)}%` : '—'}</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              value={Math.round((weights ? weights[factor] : DEFAULT_CUSTOM_WEIGHTS[factor]) * 100)}
+              onChange={(e) => handleFactorChange(factor, Number(e.target.value))}
+              className={`w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer slider ${
+                weights ? '' : 'opacity-50'
+              }`}
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
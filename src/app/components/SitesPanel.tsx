@@ -0,0 +1,117 @@
+'use client';
+
+import { useRef } from 'react';
+import { Upload, X, Crosshair } from 'lucide-react';
+import { getHexagonAreaAvg, getResolution } from 'h3-js';
+import { ImportedSite } from '@/lib/sites';
+
+export type SiteRanking = {
+  site: ImportedSite;
+  score?: number;        // mean score of the site's scored cells
+  scoredCells: number;
+  rank?: number;         // position among the AI's cells, 1 = better than all of them
+};
+
+interface SitesPanelProps {
+  rankings: SiteRanking[];
+  aiCellCount: number;
+  status: 'idle' | 'loading' | 'error';
+  message: string | null;
+  onImportFile: (file: File) => void;
+  onFocusSite: (site: ImportedSite) => void;
+  onClear: () => void;
+}
+
+export default function SitesPanel({
+  rankings,
+  aiCellCount,
+  status,
+  message,
+  onImportFile,
+  onFocusSite,
+  onClear
+}: SitesPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // All sites of an import share one resolution
+  const resolution = rankings.length > 0 ? getResolution(rankings[0].site.cells[0]) : undefined;
+
+  return (
+    <div className="absolute bottom-6 right-6 w-72 max-h-[40vh] overflow-y-auto bg-[#18181b]/95 backdrop-blur-sm text-slate-200 px-4 py-3 rounded-lg shadow-lg border border-slate-800">
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-sm font-medium text-slate-300">Candidate sites</div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="p-1 rounded hover:bg-slate-800/50 text-slate-400 hover:text-slate-200 transition-colors"
+            title="Import CSV or GeoJSON"
+          >
+            <Upload className="h-4 w-4" />
+          </button>
+          {rankings.length > 0 && (
+            <button
+              onClick={onClear}
+              className="p-1 rounded hover:bg-slate-800/50 text-slate-400 hover:text-slate-200 transition-colors"
+              title="Remove imported sites"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          )}
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.txt,.json,.geojson"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImportFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {rankings.length === 0 && status !== 'loading' && (
+        <div className="text-xs text-slate-500">Drop a CSV (lat/lng) or GeoJSON file on the map to score your own sites.</div>
+      )}
+      {status === 'loading' && <div className="text-xs text-slate-400">Scoring sites...</div>}
+      {message && (
+        <div className={`text-xs mb-2 ${status === 'error' ? 'text-red-400' : 'text-slate-500'}`}>{message}</div>
+      )}
+
+      {resolution !== undefined && (
+        <div className="text-xs text-slate-500 mb-2">
+          Scored on resolution {resolution} cells (~{getHexagonAreaAvg(resolution, 'km2').toFixed(1)} km² each)
+        </div>
+      )}
+
+      {rankings.length > 0 && (
+        <div className="space-y-1 text-xs">
+          {rankings.map(({ site, score, scoredCells, rank }) => (
+            <button
+              key={site.id}
+              onClick={() => onFocusSite(site)}
+              className="w-full flex items-center justify-between gap-2 px-2 py-1.5 rounded hover:bg-slate-800/50 text-left transition-colors"
+            >
+              <div className="min-w-0">
+                <div className="text-slate-200 truncate">{site.name}</div>
+                <div className="text-slate-500">
+                  {site.cells.length} cell{site.cells.length === 1 ? '' : 's'}
+                  {scoredCells < site.cells.length && ` · ${site.cells.length - scoredCells} unscored`}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <div className="text-right">
+                  <div className="text-slate-100 font-semibold">{score !== undefined ? `${(score * 100).toFixed(0)}%` : '—'}</div>
+                  {rank !== undefined && aiCellCount > 0 && (
+                    <div className="text-slate-500">#{rank} vs {aiCellCount} AI</div>
+                  )}
+                </div>
+                <Crosshair className="h-3 w-3 text-slate-500" />
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
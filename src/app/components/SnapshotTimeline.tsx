@@ -0,0 +1,120 @@
+'use client';
+
+import { History, GitCompare } from 'lucide-react';
+import { NUMERIC_METRICS, NumericMetric } from '@/lib/aggregation';
+import { METRICS, deltaMetric, formatMetricValue } from '@/lib/metrics';
+import { DiffConfig, Snapshot, SnapshotDiff } from '@/lib/snapshots';
+
+interface SnapshotTimelineProps {
+  snapshots: Snapshot[];
+  currentId: string | null;
+  onRestore: (snapshot: Snapshot) => void;
+  diff: DiffConfig | null;
+  onDiffChange: (diff: DiffConfig | null) => void;
+  diffSummary: SnapshotDiff | null;
+  defaultMetric: NumericMetric; // metric of the active layer
+}
+
+function formatTime(date: Date): string {
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+export default function SnapshotTimeline({
+  snapshots,
+  currentId,
+  onRestore,
+  diff,
+  onDiffChange,
+  diffSummary,
+  defaultMetric
+}: SnapshotTimelineProps) {
+  // Compare the current dataset with the one before it by default
+  const startDiff = () => {
+    const index = Math.max(1, snapshots.findIndex((s) => s.id === currentId));
+    onDiffChange({ baseId: snapshots[index - 1].id, targetId: snapshots[index].id, metric: defaultMetric });
+  };
+
+  const snapshotSelect = (value: string, onChange: (id: string) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      className="flex-1 min-w-0 bg-slate-800 text-slate-200 rounded px-1 py-0.5 border border-slate-700"
+    >
+      {snapshots.map((snapshot, i) => (
+        <option key={snapshot.id} value={snapshot.id}>{i + 1}. {snapshot.label}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="absolute top-6 left-1/2 -translate-x-1/2 w-96 max-w-[40%] bg-[#18181b]/95 backdrop-blur-sm text-slate-200 px-4 py-3 rounded-lg shadow-lg border border-slate-800">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2 text-sm font-medium text-slate-300">
+          <History className="h-4 w-4" />
+          History
+        </div>
+        <button
+          onClick={() => (diff ? onDiffChange(null) : startDiff())}
+          className={`flex items-center gap-1 px-2 py-1 rounded text-xs transition-colors ${
+            diff ? 'bg-slate-700 text-slate-200' : 'text-slate-400 hover:text-slate-300 hover:bg-slate-800/50'
+          }`}
+        >
+          <GitCompare className="h-3.5 w-3.5" />
+          Compare
+        </button>
+      </div>
+
+      {/* One chip per dataset, oldest first; clicking one puts it back on the map */}
+      <div className="flex gap-1 overflow-x-auto pb-1 text-xs">
+        {snapshots.map((snapshot, i) => (
+          <button
+            key={snapshot.id}
+            onClick={() => onRestore(snapshot)}
+            title={`${snapshot.query ?? snapshot.label} · ${snapshot.data.length} cells`}
+            className={`shrink-0 max-w-[10rem] px-2 py-1 rounded text-left transition-colors ${
+              snapshot.id === currentId
+                ? 'bg-slate-700 text-slate-200'
+                : 'text-slate-400 hover:text-slate-300 hover:bg-slate-800/50'
+            }`}
+          >
+            <div className="truncate">{i + 1}. {snapshot.label}</div>
+            <div className="text-slate-500">{formatTime(snapshot.createdAt)} · {snapshot.data.length} cells</div>
+          </button>
+        ))}
+      </div>
+
+      {diff && (
+        <div className="border-t border-slate-700 pt-2 mt-2 space-y-1 text-xs">
+          <div className="flex items-center gap-1">
+            <span className="w-10 text-slate-400">From</span>
+            {snapshotSelect(diff.baseId, (baseId) => onDiffChange({ ...diff, baseId }))}
+          </div>
+          <div className="flex items-center gap-1">
+            <span className="w-10 text-slate-400">To</span>
+            {snapshotSelect(diff.targetId, (targetId) => onDiffChange({ ...diff, targetId }))}
+          </div>
+          <div className="flex items-center gap-1">
+            <span className="w-10 text-slate-400">Metric</span>
+            <select
+              value={diff.metric}
+              onChange={(e) => onDiffChange({ ...diff, metric: e.target.value as NumericMetric })}
+              className="flex-1 min-w-0 bg-slate-800 text-slate-200 rounded px-1 py-0.5 border border-slate-700"
+            >
+              {NUMERIC_METRICS.map((m) => (
+                <option key={m} value={m}>{METRICS[m].label} ({METRICS[m].unit})</option>
+              ))}
+            </select>
+          </div>
+          {diffSummary && (
+            <div className="text-slate-400 pt-1">
+              {diffSummary.changed} changed
+              {diffSummary.meanDelta !== undefined &&
+                ` (mean ${formatMetricValue(deltaMetric(METRICS[diff.metric]), diffSummary.meanDelta)})`}
+              {' · '}{diffSummary.appeared} appeared · {diffSummary.disappeared} disappeared
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,20 +1,51 @@
 'use client';
 
-import { useState, useRef, useCallback } from 'react';
+import { useState, useRef, useCallback, useMemo, useEffect } from 'react';
+import { MapViewState } from '@deck.gl/core';
 import DatacenterMap, { DatacenterMapRef } from './components/DatacenterMap';
-import Chat from './components/Chat';
-
-type LayerType = 'score' | 'connection' | 'latency' | 'temperature';
-type ResearchMode = 'analysis' | 'research';
+import Chat, { MapUpdate } from './components/Chat';
+import { INITIAL_VIEW_STATE, MapSize, toCurrentView } from '@/lib/viewport';
+import { HexagonDataMap } from '@/lib/hexagons';
+import { EMPTY_FILTERS, MapFilters } from '@/lib/filters';
+import { AreaOfInterest } from '@/lib/areas';
+import {
+  DEFAULT_LAYER,
+  DEFAULT_MODE,
+  LayerType,
+  ResearchMode,
+  ShareableState,
+  isCameraOnlyChange,
+  parseShareableState,
+  serializeShareableState
+} from '@/lib/permalink';
 
 export default function Home() {
   const mapRef = useRef<DatacenterMapRef>(null);
-  const [activeLayer, setActiveLayer] = useState<LayerType>('score');
-  const [researchMode, setResearchMode] = useState<ResearchMode>('analysis');
+  const [activeLayer, setActiveLayer] = useState<LayerType>(DEFAULT_LAYER);
+  const [researchMode, setResearchMode] = useState<ResearchMode>(DEFAULT_MODE);
+  const [viewState, setViewState] = useState<MapViewState>(INITIAL_VIEW_STATE);
+  const [mapSize, setMapSize] = useState<MapSize>({ width: 0, height: 0 });
+  const [limitToVisibleArea, setLimitToVisibleArea] = useState(false);
+  const [filters, setFilters] = useState<MapFilters>(EMPTY_FILTERS);
+  const [selectedHexes, setSelectedHexes] = useState<string[]>([]);
+  const [dataQuery, setDataQuery] = useState<string | undefined>(undefined);
+  const [area, setArea] = useState<AreaOfInterest | null>(null);
+
+  // Shared-link state: the URL is only written once it has been read
+  const [isUrlRestored, setIsUrlRestored] = useState(false);
+  const [sharedQuery, setSharedQuery] = useState<string | undefined>(undefined);
+  const pendingViewRef = useRef<MapViewState | null>(null);
+  // Datasets seen this session, so back/forward can bring their map data back
+  const datasetsRef = useRef(new Map<string, MapUpdate>());
+  const dataQueryRef = useRef(dataQuery);
+  dataQueryRef.current = dataQuery;
+
+  // Viewport summary sent to the backend with every question
+  const currentView = useMemo(() => toCurrentView(viewState, mapSize), [viewState, mapSize]);
 
   // Example function to simulate backend data update
   const simulateBackendUpdate = (scenario: 'good' | 'bad' | 'mixed' | 'empty') => {
-    let mockBackendResponse: any;
+    let mockBackendResponse: { hexagonData: HexagonDataMap };
 
     switch (scenario) {
       case 'good':
@@ -190,16 +221,94 @@ export default function Home() {
     }
   };
 
-  const handleMapUpdate = useCallback((hexagonData: any) => {
+  const applyShareableState = useCallback((state: Partial<ShareableState>) => {
+    // Defaults are left out of links, so anything missing goes back to its default
+    setActiveLayer(state.layer ?? DEFAULT_LAYER);
+    setResearchMode(state.mode ?? DEFAULT_MODE);
+    setFilters(state.filters ?? EMPTY_FILTERS);
+    setSelectedHexes(state.selected ?? []);
+    setViewState(state.view ?? INITIAL_VIEW_STATE);
+  }, []);
+
+  // Restore the state carried by the link this page was opened with
+  useEffect(() => {
+    const state = parseShareableState(window.location.search, INITIAL_VIEW_STATE);
+    applyShareableState(state);
+    if (state.query) {
+      // The map data is rebuilt by asking the same question again;
+      // keep the linked camera instead of flying to the new answer
+      pendingViewRef.current = state.view ?? null;
+      setDataQuery(state.query);
+      setSharedQuery(state.query);
+    }
+    setIsUrlRestored(true);
+  }, [applyShareableState]);
+
+  // Back/forward moves between the states recorded in history
+  useEffect(() => {
+    const handlePopState = () => {
+      const state = parseShareableState(window.location.search, INITIAL_VIEW_STATE);
+      const dataset = state.query ? datasetsRef.current.get(state.query) : undefined;
+      if (dataset && state.query !== dataQueryRef.current) {
+        mapRef.current?.updateMap({ ...dataset, highlighted: [] });
+      }
+      setDataQuery(state.query);
+      applyShareableState(state);
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [applyShareableState]);
+
+  // Mirror the state into the URL; camera moves are debounced and replace the entry
+  useEffect(() => {
+    if (!isUrlRestored) return;
+    const timeout = setTimeout(() => {
+      const search = serializeShareableState({
+        layer: activeLayer,
+        mode: researchMode,
+        filters,
+        view: viewState,
+        selected: selectedHexes,
+        query: dataQuery
+      });
+      if (search === window.location.search) return;
+
+      const url = `${window.location.pathname}${search}`;
+      if (isCameraOnlyChange(window.location.search, search)) {
+        window.history.replaceState(null, '', url);
+      } else {
+        window.history.pushState(null, '', url);
+      }
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [isUrlRestored, activeLayer, researchMode, filters, viewState, selectedHexes, dataQuery]);
+
+  const handleMapUpdate = useCallback(({ hexagonData, query, highlighted, highlightWeights }: MapUpdate) => {
     // Ensure proper data format
     const backendResponse = {
-      hexagonData: hexagonData || {}
+      hexagonData: hexagonData || {},
+      query,
+      highlighted,
+      highlightWeights
     };
+    const hasHexagons = Object.keys(backendResponse.hexagonData).length > 0;
+    if (hasHexagons && query) {
+      datasetsRef.current.set(query, backendResponse);
+      setDataQuery(query);
+    }
     
     // Use setTimeout to avoid calling setState during render
     setTimeout(() => {
-      if (mapRef.current) {
+      if (!mapRef.current) return;
+      if (hasHexagons) {
         mapRef.current.updateMap(backendResponse);
+      } else {
+        // Highlights only - they refer to cells already on the map
+        mapRef.current.highlightHexagons(highlighted || [], highlightWeights);
+      }
+      if (pendingViewRef.current) {
+        setViewState(pendingViewRef.current);
+        pendingViewRef.current = null;
       }
     }, 0);
   }, []);
@@ -212,6 +321,16 @@ export default function Home() {
             ref={mapRef}
             activeLayer={activeLayer}
             onLayerChange={setActiveLayer}
+            viewState={viewState}
+            onViewStateChange={setViewState}
+            onResize={setMapSize}
+            filters={filters}
+            onFiltersChange={setFilters}
+            selectedHexes={selectedHexes}
+            onSelectedHexesChange={setSelectedHexes}
+            onDatasetRestore={setDataQuery}
+            area={area}
+            onAreaChange={setArea}
           />
         </div>
       
@@ -221,6 +340,11 @@ export default function Home() {
           onMapUpdate={handleMapUpdate} 
           researchMode={researchMode}
           onResearchModeChange={setResearchMode}
+          currentView={currentView}
+          limitToVisibleArea={limitToVisibleArea}
+          onLimitToVisibleAreaChange={setLimitToVisibleArea}
+          area={area}
+          initialQuery={sharedQuery}
         />
       </div>
     </div>
@@ -0,0 +1,22 @@
+// Access check for admin-only API routes (server only)
+
+import { NextRequest, NextResponse } from 'next/server';
+
+// With ADMIN_TOKEN set, callers need `Authorization: Bearer <token>`;
+// without it admin routes are only open outside production.
+// Returns the response to send when access is denied, null otherwise.
+export function checkAdminAccess(request: NextRequest): NextResponse | null {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (adminToken) {
+    if (request.headers.get('authorization') === `Bearer ${adminToken}`) return null;
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    return NextResponse.json(
+      { error: 'Set ADMIN_TOKEN to use the admin API in production' },
+      { status: 403 }
+    );
+  }
+  return null;
+}
@@ -0,0 +1,78 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { cellToChildren, cellToParent, latLngToCell } from 'h3-js';
+import { AggregatedHexData, DEFAULT_AGGREGATION, aggregateToResolution, findDisplayedCell, methodsForMetric } from './aggregation';
+import { HexData } from './hexagons';
+
+const PARENT = latLngToCell(48.8566, 2.3522, 5);
+const [A, B, C] = cellToChildren(PARENT, 7);
+const LONE = latLngToCell(45.764, 4.8357, 5);
+
+const cells: HexData[] = [
+  { hex: A, score: 0.2, latency_ms: 10, connection_points: 2, opposition: 'low' },
+  { hex: B, score: 0.6, latency_ms: 20, opposition: 'high' },
+  { hex: C, score: 0.7, latency_ms: 30, connection_points: 4, opposition: 'medium' },
+  { hex: LONE, score: 0.5, latency_ms: 15 }
+];
+
+function byHex(result: AggregatedHexData[], hex: string): AggregatedHexData {
+  const cell = result.find((d) => d.hex === hex);
+  assert.ok(cell, `missing ${hex}`);
+  return cell;
+}
+
+describe('aggregateToResolution', () => {
+  test('rolls children up with the default methods', () => {
+    const parent = byHex(aggregateToResolution(cells, 5), PARENT);
+    assert.equal(parent.childCount, 3);
+    assert.equal(parent.sourceResolution, 7);
+    assert.equal(parent.score, 0.5);
+    assert.equal(parent.latency_ms, 20);
+    // Sums scale up for children without the metric: (2 + 4) * 3 / 2
+    assert.equal(parent.connection_points, 9);
+    assert.equal(parent.opposition, 'high');
+  });
+
+  test('passes cells at or above the resolution through unchanged', () => {
+    const result = aggregateToResolution(cells, 5);
+    assert.equal(result.length, 2);
+    assert.deepEqual(byHex(result, LONE), { ...cells[3], childCount: 1 });
+    assert.equal(aggregateToResolution(cells, 9).length, cells.length);
+  });
+
+  test('applies the configured methods', () => {
+    const parent = byHex(aggregateToResolution(cells, 5, {
+      metrics: { ...DEFAULT_AGGREGATION.metrics, score: 'max', latency_ms: 'count', connection_points: 'min' },
+      opposition: 'majority'
+    }), PARENT);
+    assert.equal(parent.score, 0.7);
+    assert.equal(parent.latency_ms, 3);
+    assert.equal(parent.connection_points, 2);
+    // One of each: ties go to the higher level
+    assert.equal(parent.opposition, 'high');
+  });
+
+  test('counts on cells that pass through too, so a map never mixes counts and units', () => {
+    const config = { ...DEFAULT_AGGREGATION, metrics: { ...DEFAULT_AGGREGATION.metrics, latency_ms: 'count' as const, avg_temperature: 'count' as const } };
+    const lone = byHex(aggregateToResolution(cells, 5, config), LONE);
+    assert.equal(lone.latency_ms, 1);
+    assert.equal(lone.avg_temperature, 0);
+    assert.equal(lone.score, 0.5);
+  });
+
+  test('only offers methods that make sense for the metric', () => {
+    assert.ok(!methodsForMetric('score').includes('sum'));
+    assert.ok(!methodsForMetric('latency_ms').includes('sum'));
+    assert.ok(methodsForMetric('connection_points').includes('sum'));
+  });
+});
+
+describe('findDisplayedCell', () => {
+  test('finds the cell itself or the parent it was rolled into', () => {
+    assert.equal(findDisplayedCell(A, new Set([A])), A);
+    assert.equal(findDisplayedCell(A, new Set([PARENT])), PARENT);
+    assert.equal(findDisplayedCell(A, new Set([cellToParent(A, 6)])), cellToParent(A, 6));
+    assert.equal(findDisplayedCell(PARENT, new Set([A])), undefined);
+    assert.equal(findDisplayedCell('nope', new Set([A])), undefined);
+  });
+});
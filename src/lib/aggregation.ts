@@ -0,0 +1,206 @@
+// Roll H3 cells up to coarser resolutions so zoomed-out maps stay readable
+
+import { cellToParent, getResolution } from 'h3-js';
+import { HexData, OPPOSITION_LEVELS, Opposition } from './hexagons';
+
+export type AggregationMethod = 'mean' | 'min' | 'max' | 'sum' | 'count';
+
+export type NumericMetric =
+  | 'score'
+  | 'connection_points'
+  | 'latency_ms'
+  | 'avg_temperature'
+  | 'connection_normalized_score'
+  | 'latency_normalized_score'
+  | 'temperature_normalized_score';
+
+export type OppositionAggregation = 'worst' | 'best' | 'majority';
+
+export type AggregationConfig = {
+  metrics: Record<NumericMetric, AggregationMethod>;
+  opposition: OppositionAggregation;
+};
+
+// A rendered cell; childCount > 1 when it stands for several source cells
+export type AggregatedHexData = HexData & {
+  childCount: number;
+  sourceResolution?: number;
+};
+
+export const AGGREGATION_METHODS: AggregationMethod[] = ['mean', 'min', 'max', 'sum', 'count'];
+
+export const NUMERIC_METRICS: NumericMetric[] = [
+  'score',
+  'connection_points',
+  'latency_ms',
+  'avg_temperature',
+  'connection_normalized_score',
+  'latency_normalized_score',
+  'temperature_normalized_score',
+];
+
+export const DEFAULT_AGGREGATION: AggregationConfig = {
+  metrics: {
+    score: 'mean',
+    connection_points: 'sum',
+    latency_ms: 'mean',
+    avg_temperature: 'mean',
+    connection_normalized_score: 'mean',
+    latency_normalized_score: 'mean',
+    temperature_normalized_score: 'mean',
+  },
+  opposition: 'worst',
+};
+
+const UNIT_METRIC_METHODS: AggregationMethod[] = ['mean', 'min', 'max'];
+
+function isUnitMetric(metric: NumericMetric): boolean {
+  return metric === 'score' || metric.endsWith('_normalized_score');
+}
+
+// Methods that make sense for a metric - summing or counting a 0-1 score does not
+export function methodsForMetric(metric: NumericMetric): AggregationMethod[] {
+  if (isUnitMetric(metric)) return UNIT_METRIC_METHODS;
+  if (metric === 'connection_points') return AGGREGATION_METHODS;
+  return ['mean', 'min', 'max', 'count'];
+}
+
+// Metrics whose aggregated value is a cell count rather than a quantity in their units
+export function countedMetrics(config: AggregationConfig): NumericMetric[] {
+  return NUMERIC_METRICS.filter((metric) => config.metrics[metric] === 'count');
+}
+
+// Coarsest resolution shown up to each zoom level
+const ZOOM_RESOLUTION_STEPS: { maxZoom: number; resolution: number }[] = [
+  { maxZoom: 4.5, resolution: 3 },
+  { maxZoom: 5.5, resolution: 4 },
+  { maxZoom: 6.5, resolution: 5 },
+  { maxZoom: 7.5, resolution: 6 },
+  { maxZoom: 8.5, resolution: 7 },
+  { maxZoom: 9.5, resolution: 8 },
+];
+
+export function resolutionForZoom(zoom: number): number {
+  const step = ZOOM_RESOLUTION_STEPS.find((s) => zoom <= s.maxZoom);
+  return step ? step.resolution : 15;
+}
+
+function aggregateValues(values: number[], method: AggregationMethod, childCount: number): number | undefined {
+  if (method === 'count') return values.length;
+  if (values.length === 0) return undefined;
+
+  switch (method) {
+    case 'mean':
+      return values.reduce((sum, v) => sum + v, 0) / values.length;
+    case 'min':
+      return Math.min(...values);
+    case 'max':
+      return Math.max(...values);
+    case 'sum':
+      // Scale up when some children lack the metric, so sums stay comparable
+      return values.reduce((sum, v) => sum + v, 0) * (childCount / values.length);
+  }
+}
+
+function aggregateOpposition(levels: Opposition[], method: OppositionAggregation): Opposition | undefined {
+  if (levels.length === 0) return undefined;
+  const ranks = levels.map((level) => OPPOSITION_LEVELS.indexOf(level));
+
+  switch (method) {
+    case 'worst':
+      return OPPOSITION_LEVELS[Math.max(...ranks)];
+    case 'best':
+      return OPPOSITION_LEVELS[Math.min(...ranks)];
+    case 'majority': {
+      const counts = OPPOSITION_LEVELS.map((level) => levels.filter((l) => l === level).length);
+      // Ties go to the higher opposition level
+      const maxCount = Math.max(...counts);
+      return OPPOSITION_LEVELS[counts.lastIndexOf(maxCount)];
+    }
+  }
+}
+
+// Normalized scores stay in 0-1 whatever method was chosen, except for counts
+function clampMetric(metric: NumericMetric, method: AggregationMethod, value: number): number {
+  if (!isUnitMetric(metric) || method === 'count' || method === 'sum') return value;
+  return Math.max(0, Math.min(1, value));
+}
+
+// Group cells under their parent at `resolution`. Cells already at or above that
+// resolution are passed through unchanged - we never invent finer cells.
+export function aggregateToResolution(
+  hexData: HexData[],
+  resolution: number,
+  config: AggregationConfig = DEFAULT_AGGREGATION
+): AggregatedHexData[] {
+  const groups = new Map<string, HexData[]>();
+
+  for (const cell of hexData) {
+    let key = cell.hex;
+    try {
+      if (getResolution(cell.hex) > resolution) {
+        key = cellToParent(cell.hex, resolution);
+      }
+    } catch {
+      // Keep invalid cells as-is; validation reports them elsewhere
+    }
+    const group = groups.get(key);
+    if (group) {
+      group.push(cell);
+    } else {
+      groups.set(key, [cell]);
+    }
+  }
+
+  return Array.from(groups.entries()).map(([hex, children]) => {
+    if (children.length === 1 && children[0].hex === hex) {
+      const cell: AggregatedHexData = { ...children[0], childCount: 1 };
+      // Counted metrics stay counts on cells that needed no rolling up
+      for (const metric of countedMetrics(config)) {
+        cell[metric] = typeof cell[metric] === 'number' ? 1 : 0;
+      }
+      return cell;
+    }
+
+    const aggregated: AggregatedHexData = {
+      hex,
+      score: 0,
+      childCount: children.length,
+      sourceResolution: getResolution(children[0].hex),
+    };
+
+    for (const metric of NUMERIC_METRICS) {
+      const method = config.metrics[metric];
+      const values = children
+        .map((child) => child[metric])
+        .filter((v): v is number => typeof v === 'number' && !isNaN(v));
+      const value = aggregateValues(values, method, children.length);
+      if (value !== undefined) {
+        aggregated[metric] = clampMetric(metric, method, value);
+      }
+    }
+
+    const opposition = aggregateOpposition(
+      children.map((child) => child.opposition).filter((o): o is Opposition => o !== undefined),
+      config.opposition
+    );
+    if (opposition) aggregated.opposition = opposition;
+
+    return aggregated;
+  });
+}
+
+// The displayed cell standing for `hex`: itself, or the nearest parent it was rolled
+// up into. Undefined when neither is on the map (e.g. a parent after zooming back in).
+export function findDisplayedCell(hex: string, displayed: Set<string>): string | undefined {
+  if (displayed.has(hex)) return hex;
+  try {
+    for (let res = getResolution(hex) - 1; res >= 0; res--) {
+      const parent = cellToParent(hex, res);
+      if (displayed.has(parent)) return parent;
+    }
+  } catch {
+    // Invalid cells have no displayed counterpart
+  }
+  return undefined;
+}
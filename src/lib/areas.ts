@@ -0,0 +1,227 @@
+// Areas of interest drawn on the map: their shapes, the H3 cells they cover,
+// and the names they are saved under
+
+import { cellToParent, getResolution, greatCircleDistance, latLngToCell, polygonToCells } from 'h3-js';
+import { isValidHexagonId } from './hexagons';
+import { Bounds, isValidBounds } from './viewport';
+
+export type LngLat = [number, number];
+
+export type AreaShape =
+  | { type: 'polygon'; coordinates: LngLat[] }          // open ring of [lng, lat]
+  | { type: 'rectangle'; bounds: Bounds }
+  | { type: 'circle'; center: LngLat; radiusKm: number };
+
+export type AreaKind = AreaShape['type'];
+
+export type AreaOfInterest = {
+  name?: string;      // set once saved or picked from the saved areas
+  shape: AreaShape;
+  resolution: number; // of `cells`; coarser than the map data when the shape is large
+  cells: string[];
+};
+
+// Sent with questions to /api/analyze and /api/research
+export type AreaContext = {
+  name?: string;
+  shape: AreaKind;
+  polygon: LngLat[]; // circles are approximated
+  resolution: number;
+  cells: string[];
+};
+
+export type SavedArea = {
+  name: string;
+  shape: AreaShape;
+  savedAt: number; // epoch ms
+};
+
+export const AREA_KINDS: AreaKind[] = ['polygon', 'rectangle', 'circle'];
+
+// Keep the cell list small enough to send with every question
+export const MAX_AREA_CELLS = 5000;
+
+const CIRCLE_SEGMENTS = 64;
+const EARTH_RADIUS_KM = 6371;
+const STORAGE_KEY = 'datacenter-ai:areas';
+
+function isLngLat(value: unknown): value is LngLat {
+  return Array.isArray(value) &&
+    value.length === 2 &&
+    typeof value[0] === 'number' && typeof value[1] === 'number' &&
+    Math.abs(value[0]) <= 180 && Math.abs(value[1]) <= 90;
+}
+
+// Points `radiusKm` from the center, every 360 / CIRCLE_SEGMENTS degrees
+export function circleRing([lng, lat]: LngLat, radiusKm: number): LngLat[] {
+  const toRad = Math.PI / 180;
+  const distance = radiusKm / EARTH_RADIUS_KM;
+  const lat1 = lat * toRad;
+  const lng1 = lng * toRad;
+
+  return Array.from({ length: CIRCLE_SEGMENTS }, (_, i) => {
+    const bearing = (2 * Math.PI * i) / CIRCLE_SEGMENTS;
+    const lat2 = Math.asin(Math.sin(lat1) * Math.cos(distance) + Math.cos(lat1) * Math.sin(distance) * Math.cos(bearing));
+    const lng2 = lng1 + Math.atan2(
+      Math.sin(bearing) * Math.sin(distance) * Math.cos(lat1),
+      Math.cos(distance) - Math.sin(lat1) * Math.sin(lat2)
+    );
+    return [lng2 / toRad, lat2 / toRad];
+  });
+}
+
+export function shapeToRing(shape: AreaShape): LngLat[] {
+  if (shape.type === 'polygon') return shape.coordinates;
+  if (shape.type === 'circle') return circleRing(shape.center, shape.radiusKm);
+  const [west, south, east, north] = shape.bounds;
+  return [[west, south], [east, south], [east, north], [west, north]];
+}
+
+export function rectangleFromCorners([lng1, lat1]: LngLat, [lng2, lat2]: LngLat): AreaShape {
+  return {
+    type: 'rectangle',
+    bounds: [Math.min(lng1, lng2), Math.min(lat1, lat2), Math.max(lng1, lng2), Math.max(lat1, lat2)]
+  };
+}
+
+export function circleFromPoints(center: LngLat, edge: LngLat): AreaShape {
+  return {
+    type: 'circle',
+    center,
+    radiusKm: greatCircleDistance([center[1], center[0]], [edge[1], edge[0]], 'km')
+  };
+}
+
+// Shape being drawn, following the pointer; null until there is enough to draw
+export function draftShape(kind: AreaKind, points: LngLat[], pointer: LngLat | null): AreaShape | null {
+  const all = pointer ? [...points, pointer] : points;
+  if (kind === 'polygon') return all.length >= 3 ? { type: 'polygon', coordinates: all } : null;
+  if (all.length < 2) return null;
+  return kind === 'rectangle' ? rectangleFromCorners(all[0], all[1]) : circleFromPoints(all[0], all[1]);
+}
+
+// Cells whose centers fall inside the shape, at the finest resolution up to
+// `resolution` that stays under MAX_AREA_CELLS. Shapes smaller than a cell
+// get the cell under their first point.
+export function createArea(shape: AreaShape, resolution: number, name?: string): AreaOfInterest {
+  const ring = shapeToRing(shape);
+  let res = resolution;
+  let cells = polygonToCells(ring, res, true);
+  while (cells.length > MAX_AREA_CELLS && res > 0) {
+    res -= 1;
+    cells = polygonToCells(ring, res, true);
+  }
+  if (cells.length === 0) {
+    const [lng, lat] = ring[0];
+    cells = [latLngToCell(lat, lng, res)];
+  }
+  return { ...(name && { name }), shape, resolution: res, cells };
+}
+
+export function toAreaContext(area: AreaOfInterest): AreaContext {
+  return {
+    ...(area.name && { name: area.name }),
+    shape: area.shape.type,
+    polygon: shapeToRing(area.shape).map(([lng, lat]) => [Number(lng.toFixed(5)), Number(lat.toFixed(5))]),
+    resolution: area.resolution,
+    cells: area.cells
+  };
+}
+
+// Request bodies are untrusted: anything malformed drops the area
+export function parseAreaContext(raw: unknown): AreaContext | undefined {
+  if (typeof raw !== 'object' || raw === null) return undefined;
+  const { name, shape, polygon, resolution, cells } = raw as Record<string, unknown>;
+
+  if (!AREA_KINDS.includes(shape as AreaKind)) return undefined;
+  if (!Array.isArray(polygon) || polygon.length < 3 || !polygon.every(isLngLat)) return undefined;
+  if (typeof resolution !== 'number' || !Number.isInteger(resolution) || resolution < 0 || resolution > 15) return undefined;
+  if (!Array.isArray(cells) || cells.length === 0 || cells.length > MAX_AREA_CELLS || !cells.every(isValidHexagonId)) {
+    return undefined;
+  }
+
+  return {
+    ...(typeof name === 'string' && name.trim() && { name: name.trim().slice(0, 80) }),
+    shape: shape as AreaKind,
+    polygon,
+    resolution,
+    cells
+  };
+}
+
+// Keep the cells inside the area. Cells finer than the area's cells are kept
+// when their parent is inside; coarser ones are tested against the shape directly.
+export function clipToArea<T extends { hex: string }>(data: T[], area: AreaOfInterest): T[] {
+  const ring = shapeToRing(area.shape);
+  const cellSets = new Map<number, Set<string>>([[area.resolution, new Set(area.cells)]]);
+  const cellsAt = (res: number): Set<string> => {
+    let cells = cellSets.get(res);
+    if (!cells) {
+      cells = new Set(polygonToCells(ring, res, true));
+      cellSets.set(res, cells);
+    }
+    return cells;
+  };
+
+  return data.filter((d) => {
+    const res = getResolution(d.hex);
+    return res > area.resolution
+      ? cellsAt(area.resolution).has(cellToParent(d.hex, area.resolution))
+      : cellsAt(res).has(d.hex);
+  });
+}
+
+// "Circle · 50 km radius"
+export function describeArea(area: AreaOfInterest): string {
+  const { shape } = area;
+  const kind = shape.type === 'circle'
+    ? `Circle · ${shape.radiusKm.toFixed(shape.radiusKm < 10 ? 1 : 0)} km radius`
+    : shape.type === 'rectangle' ? 'Rectangle' : `Polygon · ${shape.coordinates.length} points`;
+  return area.name ? `${area.name} (${kind})` : kind;
+}
+
+function isAreaShape(value: unknown): value is AreaShape {
+  if (typeof value !== 'object' || value === null) return false;
+  const shape = value as Record<string, unknown>;
+  if (shape.type === 'polygon') return Array.isArray(shape.coordinates) && shape.coordinates.length >= 3 && shape.coordinates.every(isLngLat);
+  if (shape.type === 'rectangle') return isValidBounds(shape.bounds);
+  if (shape.type === 'circle') return isLngLat(shape.center) && typeof shape.radiusKm === 'number' && shape.radiusKm > 0;
+  return false;
+}
+
+// Saved areas live in localStorage; they are small and only shapes are kept,
+// cells are worked out again at the resolution of the data on the map
+export function loadSavedAreas(): SavedArea[] {
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.filter((a): a is SavedArea =>
+      typeof a?.name === 'string' && typeof a?.savedAt === 'number' && isAreaShape(a?.shape)
+    );
+  } catch (error) {
+    console.warn('Could not read saved areas:', error);
+    return [];
+  }
+}
+
+function writeSavedAreas(areas: SavedArea[]): SavedArea[] {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(areas));
+  } catch (error) {
+    console.warn('Could not save areas:', error);
+  }
+  return areas;
+}
+
+// Saving under an existing name replaces that area
+export function saveArea(name: string, shape: AreaShape): SavedArea[] {
+  const trimmed = name.trim();
+  const others = loadSavedAreas().filter((a) => a.name !== trimmed);
+  return writeSavedAreas([...others, { name: trimmed, shape, savedAt: Date.now() }]
+    .sort((a, b) => a.name.localeCompare(b.name)));
+}
+
+export function deleteSavedArea(name: string): SavedArea[] {
+  return writeSavedAreas(loadSavedAreas().filter((a) => a.name !== name));
+}
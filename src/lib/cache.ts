@@ -0,0 +1,167 @@
+// In-memory LRU + TTL cache for backend answers (server only)
+
+import { createHash } from 'crypto';
+import { BackendAnswer, ValidationResult } from './hexagons';
+import { CurrentView } from './viewport';
+import { AreaContext } from './areas';
+
+export type CacheStatus = 'hit' | 'miss';
+
+export type CacheOptions = {
+  maxEntries: number;
+  ttlMs: number;
+};
+
+export type CacheEntryInfo = {
+  key: string;
+  label: string;     // human-readable description, e.g. endpoint and message
+  createdAt: string; // ISO timestamp
+  expiresInMs: number;
+  hits: number;
+};
+
+export type CacheStats = {
+  size: number;
+  maxEntries: number;
+  ttlMs: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+};
+
+type CacheEntry<T> = {
+  value: T;
+  label: string;
+  createdAt: number;
+  expiresAt: number;
+  hits: number;
+};
+
+// Map iteration order is insertion order, so re-inserting on read keeps
+// the least recently used entry first
+export class LRUCache<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(private options: CacheOptions) {}
+
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) this.entries.delete(key);
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    entry.hits++;
+    this.hits++;
+    return entry.value;
+  }
+
+  set(key: string, value: T, label = key): void {
+    const now = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, { value, label, createdAt: now, expiresAt: now + this.options.ttlMs, hits: 0 });
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+  }
+
+  delete(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  // Returns the number of entries removed
+  clear(): number {
+    const size = this.entries.size;
+    this.entries.clear();
+    return size;
+  }
+
+  list(): CacheEntryInfo[] {
+    const now = Date.now();
+    return Array.from(this.entries.entries())
+      .filter(([, entry]) => entry.expiresAt > now)
+      .reverse() // most recently used first
+      .map(([key, entry]) => ({
+        key,
+        label: entry.label,
+        createdAt: new Date(entry.createdAt).toISOString(),
+        expiresInMs: entry.expiresAt - now,
+        hits: entry.hits
+      }));
+  }
+
+  stats(): CacheStats {
+    return {
+      size: this.entries.size,
+      maxEntries: this.options.maxEntries,
+      ttlMs: this.options.ttlMs,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions
+    };
+  }
+}
+
+// "Show me the best locations!" and "show me  the best locations" share an entry
+export function normalizeMessage(message: string): string {
+  return message.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[?!.\s]+$/, '');
+}
+
+type CacheKeyContext = {
+  currentView?: CurrentView;
+  limitToView?: boolean;
+  area?: AreaContext;
+};
+
+// Viewports are rounded so tiny camera nudges still hit the same entry.
+// An area's cells follow from its outline and resolution.
+function normalizeContext(context?: CacheKeyContext): string {
+  const view = context?.currentView;
+  const area = context?.area;
+  return [
+    ...(view ? [
+      view.lat.toFixed(2),
+      view.lng.toFixed(2),
+      view.zoom.toFixed(1),
+      ...(view.bounds ? view.bounds.map((b) => b.toFixed(2)) : []),
+      context?.limitToView ? 'limit' : ''
+    ] : []),
+    ...(area ? [`area:${area.resolution}`, ...area.polygon.map(([lng, lat]) => `${lng.toFixed(4)} ${lat.toFixed(4)}`)] : [])
+  ].join(',');
+}
+
+export function createCacheKey(
+  endpoint: string,
+  message: string,
+  context?: CacheKeyContext,
+  previousMessage?: string
+): string {
+  const parts = [endpoint, normalizeMessage(message), normalizeContext(context), previousMessage ? normalizeMessage(previousMessage) : ''];
+  return createHash('sha1').update(parts.join('\u0000')).digest('hex');
+}
+
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+// One cache per server process; kept on globalThis so every route and
+// dev-mode reload shares it
+const globalForCache = globalThis as typeof globalThis & {
+  backendCache?: LRUCache<ValidationResult<BackendAnswer>>;
+};
+
+export const backendCache = globalForCache.backendCache ??= new LRUCache<ValidationResult<BackendAnswer>>({
+  maxEntries: readNumber(process.env.BACKEND_CACHE_MAX_ENTRIES, 200),
+  ttlMs: readNumber(process.env.BACKEND_CACHE_TTL_MS, 10 * 60 * 1000)
+});
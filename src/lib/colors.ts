@@ -0,0 +1,35 @@
+// Colors shared by the map layers, legends and exports
+
+import { Opposition } from './hexagons';
+
+export type RGBAColor = [number, number, number, number];
+
+// Categorical palette for community opposition, kept apart from the score ramp
+// so it still reads when drawn over it
+export const OPPOSITION_COLORS: Record<Opposition, RGBAColor> = {
+  low: [45, 212, 191, 220],
+  medium: [167, 139, 250, 220],
+  high: [236, 72, 153, 220],
+};
+
+// Cells the backend sent without an opposition level
+export const NO_DATA_COLOR: RGBAColor = [113, 113, 122, 140];
+
+export function getOppositionColor(opposition: Opposition | undefined, alpha = 220): RGBAColor {
+  if (!opposition) return NO_DATA_COLOR;
+  const [r, g, b] = OPPOSITION_COLORS[opposition];
+  return [r, g, b, alpha];
+}
+
+// Snapshot diff: cells only in the newer dataset, and cells it no longer has
+export const APPEARED_COLOR: RGBAColor = [74, 222, 128, 90];
+export const DISAPPEARED_COLOR: RGBAColor = [148, 163, 184, 40];
+
+export function withAlpha([r, g, b]: RGBAColor, alpha: number): RGBAColor {
+  return [r, g, b, alpha];
+}
+
+// CSS color for legends
+export function toCssColor([r, g, b]: RGBAColor): string {
+  return `rgb(${r}, ${g}, ${b})`;
+}
@@ -0,0 +1,168 @@
+// Chat conversations persisted locally in IndexedDB
+
+import { HexagonDataMap } from './hexagons';
+
+export type MapUpdate = {
+  hexagonData: HexagonDataMap;
+  query?: string;
+  highlighted?: string[];
+  highlightWeights?: Record<string, number>;
+};
+
+export type StoredMessage = {
+  id: string;
+  type: 'user' | 'bot';
+  content: string;
+  timestamp: number; // epoch ms
+  isMarkdown?: boolean;
+  mode?: 'analysis' | 'research'; // mode the prompt was asked in
+  previousMessage?: string;        // context a research prompt was sent with
+  feedback?: 'up' | 'down';
+  source?: 'backend' | 'fallback'; // 'fallback' answers are canned demo data
+  fallbackReason?: string;
+  mapUpdate?: MapUpdate; // map payload the answer produced
+};
+
+export type Conversation = {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: StoredMessage[];
+};
+
+// List entries leave the messages out; they can be large once maps are attached
+export type ConversationSummary = Omit<Conversation, 'messages'> & {
+  messageCount: number;
+  preview: string; // text matched by search
+};
+
+const DB_NAME = 'datacenter-ai';
+const DB_VERSION = 2;
+const STORE = 'conversations';
+// Sidebar entries without the map payloads, written alongside every conversation
+const SUMMARY_STORE = 'summaries';
+
+let idCounter = 0;
+
+// Unique across reloads and tabs, not just within one millisecond
+export function createId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  idCounter += 1;
+  return `${Date.now().toString(36)}-${idCounter}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function titleFromMessages(messages: StoredMessage[]): string {
+  const firstQuestion = messages.find((m) => m.type === 'user')?.content.trim() || 'New conversation';
+  return firstQuestion.length > 60 ? `${firstQuestion.slice(0, 57)}...` : firstQuestion;
+}
+
+function toSummary({ messages, ...conversation }: Conversation): ConversationSummary {
+  return {
+    ...conversation,
+    messageCount: messages.length,
+    preview: messages.map((m) => m.content).join('\n'),
+  };
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(SUMMARY_STORE)) {
+          const summaries = db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+          // Summarize conversations saved before the summary store existed
+          const cursorRequest = request.transaction!.objectStore(STORE).openCursor();
+          cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor) return;
+            summaries.put(toSummary(cursor.value));
+            cursor.continue();
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Write to both stores in one transaction, so a summary never outlives or
+// disagrees with its conversation
+async function writeBothStores(run: (conversations: IDBObjectStore, summaries: IDBObjectStore) => void): Promise<void> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([STORE, SUMMARY_STORE], 'readwrite');
+    run(transaction.objectStore(STORE), transaction.objectStore(SUMMARY_STORE));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function listConversations(): Promise<ConversationSummary[]> {
+  const summaries = await withStore<ConversationSummary[]>(SUMMARY_STORE, 'readonly', (store) => store.getAll());
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getConversation(id: string): Promise<Conversation | undefined> {
+  return withStore<Conversation | undefined>(STORE, 'readonly', (store) => store.get(id));
+}
+
+export async function saveConversation(conversation: Conversation): Promise<void> {
+  await writeBothStores((conversations, summaries) => {
+    conversations.put(conversation);
+    summaries.put(toSummary(conversation));
+  });
+}
+
+export async function renameConversation(id: string, title: string): Promise<void> {
+  const conversation = await getConversation(id);
+  if (!conversation) return;
+  await saveConversation({ ...conversation, title: title.trim() || conversation.title });
+}
+
+export async function deleteConversation(id: string): Promise<void> {
+  await writeBothStores((conversations, summaries) => {
+    conversations.delete(id);
+    summaries.delete(id);
+  });
+}
+
+// Case-insensitive match on the title and every message
+export function searchConversations(conversations: ConversationSummary[], term: string): ConversationSummary[] {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return conversations;
+  return conversations.filter((c) =>
+    c.title.toLowerCase().includes(needle) || c.preview.toLowerCase().includes(needle)
+  );
+}
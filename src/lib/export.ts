@@ -0,0 +1,179 @@
+// Export the map dataset to GIS formats (GeoJSON, CSV, KML)
+
+import { cellToBoundary, cellToLatLng, getResolution } from 'h3-js';
+import { HexData } from './hexagons';
+import { RGBAColor } from './colors';
+
+export type ExportFormat = 'geojson' | 'csv' | 'kml';
+
+export type ExportMetadata = {
+  query?: string;        // question that produced the dataset
+  exportedAt: Date;
+  layer: string;         // active map layer
+  filter?: string;       // human-readable filter description, when applied
+  scoreWeights?: string; // custom weights, when applied
+};
+
+export type ExportOptions = {
+  metadata: ExportMetadata;
+  getScore: (d: HexData) => number; // score shown on the map (weighted or backend)
+  getColor: (d: HexData) => RGBAColor; // active color ramp
+};
+
+const METRIC_FIELDS = [
+  'score',
+  'connection_points',
+  'latency_ms',
+  'avg_temperature',
+  'connection_normalized_score',
+  'latency_normalized_score',
+  'temperature_normalized_score',
+  'opposition',
+] as const;
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  geojson: { extension: 'geojson', mimeType: 'application/geo+json' },
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  kml: { extension: 'kml', mimeType: 'application/vnd.google-earth.kml+xml' },
+};
+
+function cellProperties(d: HexData, options: ExportOptions) {
+  const [lat, lng] = cellToLatLng(d.hex);
+  return {
+    h3_index: d.hex,
+    resolution: getResolution(d.hex),
+    centroid_lat: Number(lat.toFixed(6)),
+    centroid_lng: Number(lng.toFixed(6)),
+    ...Object.fromEntries(METRIC_FIELDS.map((field) => [field, d[field] ?? null])),
+    ...(options.metadata.scoreWeights && { weighted_score: Number(options.getScore(d).toFixed(4)) }),
+  };
+}
+
+function metadataProperties(metadata: ExportMetadata) {
+  return {
+    query: metadata.query ?? null,
+    exported_at: metadata.exportedAt.toISOString(),
+    layer: metadata.layer,
+    filter: metadata.filter ?? null,
+    score_weights: metadata.scoreWeights ?? null,
+  };
+}
+
+export function toGeoJSON(cells: HexData[], options: ExportOptions): string {
+  const featureCollection = {
+    type: 'FeatureCollection',
+    metadata: metadataProperties(options.metadata),
+    features: cells.map((d) => ({
+      type: 'Feature',
+      id: d.hex,
+      geometry: {
+        type: 'Polygon',
+        // formatAsGeoJson: [lng, lat] pairs with a closed ring
+        coordinates: [cellToBoundary(d.hex, true)],
+      },
+      properties: cellProperties(d, options),
+    })),
+  };
+  return JSON.stringify(featureCollection, null, 2);
+}
+
+function escapeCsv(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// One row per cell; query and timestamp are repeated as columns so the file
+// stays loadable in QGIS without header-skipping options
+export function toCSV(cells: HexData[], options: ExportOptions): string {
+  const meta = metadataProperties(options.metadata);
+  const rows = cells.map((d) => ({ ...cellProperties(d, options), query: meta.query, exported_at: meta.exported_at }));
+  const columns = rows.length > 0
+    ? Object.keys(rows[0])
+    : ['h3_index', 'resolution', 'centroid_lat', 'centroid_lng', ...METRIC_FIELDS, 'query', 'exported_at'];
+
+  return [
+    columns.join(','),
+    ...rows.map((row) => columns.map((column) => escapeCsv(row[column as keyof typeof row])).join(',')),
+  ].join('\n');
+}
+
+function escapeXml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// KML colors are aabbggrr
+function toKmlColor([r, g, b, a]: RGBAColor): string {
+  return [a, b, g, r].map((c) => Math.round(c).toString(16).padStart(2, '0')).join('');
+}
+
+export function toKML(cells: HexData[], options: ExportOptions): string {
+  const meta = metadataProperties(options.metadata);
+  const description = [
+    meta.query && `Query: ${meta.query}`,
+    `Exported: ${meta.exported_at}`,
+    `Layer: ${meta.layer}`,
+    meta.filter && `Filter: ${meta.filter}`,
+    meta.score_weights && `Score weights: ${meta.score_weights}`,
+  ].filter(Boolean).join('\n');
+
+  const placemarks = cells.map((d) => {
+    const properties = cellProperties(d, options);
+    const ring = cellToBoundary(d.hex, true).map(([lng, lat]) => `${lng},${lat},0`).join(' ');
+    const extendedData = Object.entries(properties)
+      .map(([name, value]) => `<Data name="${escapeXml(name)}"><value>${escapeXml(value)}</value></Data>`)
+      .join('');
+
+    return `    <Placemark>
+      <name>${escapeXml(d.hex)}</name>
+      <Style>
+        <LineStyle><color>${toKmlColor([255, 255, 255, 120])}</color><width>1</width></LineStyle>
+        <PolyStyle><color>${toKmlColor(options.getColor(d))}</color></PolyStyle>
+      </Style>
+      <ExtendedData>${extendedData}</ExtendedData>
+      <Polygon><outerBoundaryIs><LinearRing><coordinates>${ring}</coordinates></LinearRing></outerBoundaryIs></Polygon>
+    </Placemark>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>Datacenter analysis</name>
+    <description>${escapeXml(description)}</description>
+${placemarks.join('\n')}
+  </Document>
+</kml>`;
+}
+
+export function exportCells(format: ExportFormat, cells: HexData[], options: ExportOptions): string {
+  switch (format) {
+    case 'geojson':
+      return toGeoJSON(cells, options);
+    case 'csv':
+      return toCSV(cells, options);
+    case 'kml':
+      return toKML(cells, options);
+  }
+}
+
+export function getExportFilename(format: ExportFormat, exportedAt: Date): string {
+  const stamp = exportedAt.toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  return `datacenter-analysis-${stamp}.${FILE_TYPES[format].extension}`;
+}
+
+// Trigger a browser download of the exported file
+export function downloadExport(format: ExportFormat, content: string, filename: string): void {
+  const blob = new Blob([content], { type: FILE_TYPES[format].mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
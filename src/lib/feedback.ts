@@ -0,0 +1,76 @@
+// Append-only store for ratings on chat answers (server only)
+
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+export type FeedbackRating = 'up' | 'down';
+
+export type FeedbackInput = {
+  rating: FeedbackRating;
+  comment?: string;
+  prompt: string;
+  response: string;
+  mode: 'analysis' | 'research';
+  hexagonCount: number;
+  messageId?: string;
+};
+
+export type FeedbackRecord = FeedbackInput & {
+  id: string;
+  createdAt: string; // ISO timestamp
+};
+
+// One JSON record per line; lines are only ever appended
+export const FEEDBACK_FILE = process.env.FEEDBACK_FILE || path.join(process.cwd(), 'data', 'feedback.jsonl');
+
+const MAX_COMMENT_LENGTH = 2000;
+
+// Returns the validated input, or a message describing the first problem
+export function validateFeedback(raw: unknown): FeedbackInput | string {
+  if (!raw || typeof raw !== 'object') return 'Expected a JSON object';
+  const body = raw as Record<string, unknown>;
+
+  if (body.rating !== 'up' && body.rating !== 'down') return 'rating must be "up" or "down"';
+  if (typeof body.prompt !== 'string' || !body.prompt.trim()) return 'prompt is required';
+  if (typeof body.response !== 'string') return 'response is required';
+  if (body.mode !== 'analysis' && body.mode !== 'research') return 'mode must be "analysis" or "research"';
+  if (body.comment !== undefined && typeof body.comment !== 'string') return 'comment must be a string';
+  if (typeof body.comment === 'string' && body.comment.length > MAX_COMMENT_LENGTH) {
+    return `comment must be at most ${MAX_COMMENT_LENGTH} characters`;
+  }
+
+  const hexagonCount = Number(body.hexagonCount ?? 0);
+  if (!Number.isInteger(hexagonCount) || hexagonCount < 0) return 'hexagonCount must be a non-negative integer';
+
+  return {
+    rating: body.rating,
+    ...(typeof body.comment === 'string' && body.comment.trim() && { comment: body.comment.trim() }),
+    prompt: body.prompt,
+    response: body.response,
+    mode: body.mode,
+    hexagonCount,
+    ...(typeof body.messageId === 'string' && { messageId: body.messageId })
+  };
+}
+
+export async function appendFeedback(input: FeedbackInput): Promise<FeedbackRecord> {
+  const record: FeedbackRecord = {
+    id: randomUUID(),
+    createdAt: new Date().toISOString(),
+    ...input
+  };
+  await mkdir(path.dirname(FEEDBACK_FILE), { recursive: true });
+  await appendFile(FEEDBACK_FILE, `${JSON.stringify(record)}\n`, 'utf8');
+  return record;
+}
+
+// Raw file contents for export; empty when nothing has been recorded yet
+export async function readFeedbackFile(): Promise<string> {
+  try {
+    return await readFile(FEEDBACK_FILE, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return '';
+    throw error;
+  }
+}
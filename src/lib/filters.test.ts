@@ -0,0 +1,59 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FILTER_SLOTS, MapFilters, MetricValueGetter, describeFilters, describeRange, getFilterValues, resolveFilters } from './filters';
+import { HexData } from './hexagons';
+
+const getValue: MetricValueGetter = (d, metric) => d[metric];
+
+// Scores 0.0 to 0.9; every third cell has no latency
+const cells: HexData[] = Array.from({ length: 10 }, (_, i) => ({
+  hex: `cell-${i}`,
+  score: i / 10,
+  latency_ms: i % 3 === 0 ? undefined : 10 * i,
+  opposition: i < 5 ? 'low' : 'high'
+}));
+
+function visible(filters: MapFilters): string[] {
+  const { test } = resolveFilters(filters, cells, getValue);
+  return cells.filter(test).map((d) => d.hex);
+}
+
+describe('resolveFilters', () => {
+  test('value ranges keep cells within the bounds', () => {
+    const filters: MapFilters = { ranges: [{ metric: 'latency_ms', mode: 'value', min: 0, max: 45 }], excludedOpposition: [] };
+    assert.deepEqual(visible(filters), ['cell-1', 'cell-2', 'cell-4']);
+  });
+
+  test('percentile ranges rank the dataset', () => {
+    const filters: MapFilters = { ranges: [{ metric: 'score', mode: 'percentile', min: 0.8, max: 1 }], excludedOpposition: [] };
+    assert.deepEqual(visible(filters), ['cell-8', 'cell-9']);
+    assert.deepEqual(resolveFilters(filters, cells, getValue).bounds[0], [0.8, 0.9]);
+  });
+
+  test('excluded opposition levels are hidden', () => {
+    const filters: MapFilters = { ranges: [], excludedOpposition: ['high'] };
+    assert.deepEqual(visible(filters), ['cell-0', 'cell-1', 'cell-2', 'cell-3', 'cell-4']);
+    assert.deepEqual(resolveFilters(filters, cells, getValue).categories, ['low', 'medium', 'unknown']);
+  });
+
+  test('pads bounds and values to the filter slots; missing values fail every range', () => {
+    const filters: MapFilters = { ranges: [{ metric: 'latency_ms', mode: 'value', min: -100, max: 100 }], excludedOpposition: [] };
+    const { bounds } = resolveFilters(filters, cells, getValue);
+    assert.equal(bounds.length, FILTER_SLOTS);
+
+    const [missing] = getFilterValues(cells[0], filters, getValue);
+    assert.ok(missing < bounds[0][0]);
+    assert.equal(getFilterValues(cells[1], filters, getValue).length, FILTER_SLOTS);
+  });
+});
+
+describe('describeFilters', () => {
+  test('describes ranges in the metric units and opposition exclusions', () => {
+    assert.equal(describeRange({ metric: 'score', mode: 'percentile', min: 0.8, max: 1 }), 'Top 20% by Score');
+    assert.equal(describeRange({ metric: 'score', mode: 'percentile', min: 0, max: 0.25 }), 'Bottom 25% by Score');
+    assert.match(
+      describeFilters({ ranges: [{ metric: 'latency_ms', mode: 'value', min: 0, max: 25 }], excludedOpposition: ['high'] }),
+      /^Latency .*25 ms; Opposition ≠ high$/
+    );
+  });
+});
@@ -0,0 +1,117 @@
+// Map filters: up to four metric ranges plus excluded opposition levels.
+// Ranges map to DataFilterExtension value slots, opposition to its category filter.
+
+import { NumericMetric } from './aggregation';
+import { HexData, OPPOSITION_LEVELS, Opposition } from './hexagons';
+import { METRICS, formatMetricValue } from './metrics';
+
+export type RangeMode = 'value' | 'percentile';
+
+export type RangeFilter = {
+  metric: NumericMetric;
+  mode: RangeMode;
+  min: number; // stored units in value mode, 0-1 rank in percentile mode
+  max: number;
+};
+
+export type MapFilters = {
+  ranges: RangeFilter[];
+  excludedOpposition: Opposition[];
+};
+
+// Bounds and a CPU test for one dataset; percentile ranges rank that dataset
+export type ResolvedFilters = {
+  bounds: [number, number][];     // one per value slot, padded to FILTER_SLOTS
+  categories: string[];           // opposition categories that stay visible
+  test: (d: HexData) => boolean;
+};
+
+// DataFilterExtension takes at most four filter values
+export const FILTER_SLOTS = 4;
+
+// Stand-in for missing values: fails every range, so "latency ≤ 25 ms" drops cells without latency
+const MISSING_VALUE = -1e9;
+
+// Unused slots always pass
+const OPEN_SLOT: [number, number] = [-1, 1];
+
+// Category for cells the backend sent without an opposition level
+export const UNKNOWN_OPPOSITION = 'unknown';
+
+export const EMPTY_FILTERS: MapFilters = { ranges: [], excludedOpposition: [] };
+
+export function isFilterActive(filters: MapFilters): boolean {
+  return filters.ranges.length > 0 || filters.excludedOpposition.length > 0;
+}
+
+export type MetricValueGetter = (d: HexData, metric: NumericMetric) => number | undefined;
+
+// Value of the n-th percentile rank among sorted values; lower bounds round up
+// so "top 20%" never takes in more than a fifth of the cells, ties aside
+function percentileBound(sorted: number[], rank: number, side: 'min' | 'max'): number {
+  const index = side === 'min'
+    ? Math.min(sorted.length - 1, Math.floor(rank * sorted.length))
+    : Math.max(0, Math.ceil(rank * sorted.length) - 1);
+  return sorted[index];
+}
+
+export function resolveFilters(filters: MapFilters, cells: HexData[], getValue: MetricValueGetter): ResolvedFilters {
+  const bounds = filters.ranges.slice(0, FILTER_SLOTS).map((range): [number, number] => {
+    if (range.mode === 'value') return [range.min, range.max];
+
+    const sorted = cells
+      .map((d) => getValue(d, range.metric))
+      .filter((v): v is number => v !== undefined && Number.isFinite(v))
+      .sort((a, b) => a - b);
+    // Nothing to rank: an empty range hides everything
+    if (sorted.length === 0) return [1, 0];
+    return [percentileBound(sorted, range.min, 'min'), percentileBound(sorted, range.max, 'max')];
+  });
+
+  const categories = [...OPPOSITION_LEVELS, UNKNOWN_OPPOSITION]
+    .filter((level) => !filters.excludedOpposition.includes(level as Opposition));
+
+  const ranges = filters.ranges.slice(0, FILTER_SLOTS);
+  const test = (d: HexData): boolean => {
+    if (d.opposition && filters.excludedOpposition.includes(d.opposition)) return false;
+    return ranges.every((range, i) => {
+      const value = getValue(d, range.metric);
+      return value !== undefined && value >= bounds[i][0] && value <= bounds[i][1];
+    });
+  };
+
+  return {
+    bounds: [...bounds, ...new Array(FILTER_SLOTS - bounds.length).fill(OPEN_SLOT)],
+    categories,
+    test,
+  };
+}
+
+// Per-cell values for the GPU filter, in the same slots as `bounds`
+export function getFilterValues(d: HexData, filters: MapFilters, getValue: MetricValueGetter): number[] {
+  const values = filters.ranges.slice(0, FILTER_SLOTS).map((range) => getValue(d, range.metric) ?? MISSING_VALUE);
+  return [...values, ...new Array(FILTER_SLOTS - values.length).fill(0)];
+}
+
+export function getFilterCategory(d: HexData): string {
+  return d.opposition ?? UNKNOWN_OPPOSITION;
+}
+
+// "Top 20% by Score", "Latency 0 ms – 25 ms"
+export function describeRange(range: RangeFilter): string {
+  const metric = METRICS[range.metric];
+  if (range.mode === 'percentile') {
+    if (range.max >= 1 && range.min > 0) return `Top ${Math.round((1 - range.min) * 100)}% by ${metric.label}`;
+    if (range.min <= 0 && range.max < 1) return `Bottom ${Math.round(range.max * 100)}% by ${metric.label}`;
+    return `${metric.label} ${Math.round(range.min * 100)}th–${Math.round(range.max * 100)}th percentile`;
+  }
+  return `${metric.label} ${formatMetricValue(metric, range.min)} – ${formatMetricValue(metric, range.max)}`;
+}
+
+// One line for exports and the filter summary
+export function describeFilters(filters: MapFilters): string {
+  return [
+    ...filters.ranges.map(describeRange),
+    ...(filters.excludedOpposition.length > 0 ? [`Opposition ≠ ${filters.excludedOpposition.join(', ')}`] : []),
+  ].join('; ');
+}
@@ -0,0 +1,83 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { latLngToCell } from 'h3-js';
+import { BackendContractError, ValidationIssue, parseBackendAnswer, validateHexagonItem } from './hexagons';
+
+const PARIS = latLngToCell(48.8566, 2.3522, 7);
+const LYON = latLngToCell(45.764, 4.8357, 7);
+
+describe('validateHexagonItem', () => {
+  test('keeps a valid cell as sent', () => {
+    const issues: ValidationIssue[] = [];
+    const raw = { score: 0.8, latency_ms: 12, connection_points: 3, opposition: 'low' };
+    assert.deepEqual(validateHexagonItem(raw, 'cell', issues), raw);
+    assert.deepEqual(issues, []);
+  });
+
+  test('drops a bad optional field and keeps the rest of the cell', () => {
+    const issues: ValidationIssue[] = [];
+    const item = validateHexagonItem({ score: 0.5, latency_ms: 'n/a', opposition: 'unknown', avg_temperature: null }, 'cell', issues);
+    assert.deepEqual(item, { score: 0.5 });
+    assert.deepEqual(issues.map((issue) => [issue.path, issue.dropped]), [
+      ['cell.latency_ms', 'field'],
+      ['cell.opposition', 'field']
+    ]);
+  });
+
+  test('drops the cell when the score is missing or out of range', () => {
+    const issues: ValidationIssue[] = [];
+    assert.equal(validateHexagonItem({ latency_ms: 12 }, 'a', issues), null);
+    assert.equal(validateHexagonItem({ score: 1.5 }, 'b', issues), null);
+    assert.equal(validateHexagonItem('high', 'c', issues), null);
+    assert.deepEqual(issues.map((issue) => [issue.path, issue.dropped]), [
+      ['a.score', 'cell'],
+      ['b.score', 'cell'],
+      ['c', 'cell']
+    ]);
+  });
+
+  test('rejects fractional or negative connection points', () => {
+    const issues: ValidationIssue[] = [];
+    assert.deepEqual(validateHexagonItem({ score: 0.5, connection_points: 2.5 }, 'cell', issues), { score: 0.5 });
+    assert.equal(issues[0].path, 'cell.connection_points');
+  });
+});
+
+describe('parseBackendAnswer', () => {
+  test('keeps valid cells and reports the rest', () => {
+    const { data, issues } = parseBackendAnswer({
+      response: 'Paris looks good',
+      hexagonData: { [PARIS]: { score: 0.9 }, [LYON]: { score: 'high' }, 'not-an-h3-cell': { score: 0.5 } },
+      highlighted: [PARIS, 'nope']
+    });
+    assert.deepEqual(data.hexagonData, { [PARIS]: { score: 0.9 } });
+    assert.deepEqual(data.highlighted, { [PARIS]: 1 });
+    assert.deepEqual(issues.map((issue) => issue.path), [
+      `hexagonData.${LYON}.score`,
+      'hexagonData.not-an-h3-cell',
+      'highlighted[1]'
+    ]);
+  });
+
+  test('accepts an answer without cells', () => {
+    const { data, issues } = parseBackendAnswer({ response: 'Nothing found', hexagonData: {} });
+    assert.deepEqual(data.hexagonData, {});
+    assert.deepEqual(issues, []);
+  });
+
+  test('throws when the answer itself is unusable', () => {
+    assert.throws(() => parseBackendAnswer([]), BackendContractError);
+    assert.throws(() => parseBackendAnswer({ hexagonData: {} }), /no answer text/);
+    assert.throws(() => parseBackendAnswer({ response: 'x', hexagonData: [1, 2] }), /malformed/);
+  });
+
+  test('throws with every issue when no cell is valid', () => {
+    assert.throws(
+      () => parseBackendAnswer({ response: 'x', hexagonData: { [PARIS]: { score: 2 }, [LYON]: {} } }),
+      (error: unknown) => error instanceof BackendContractError
+        && /no valid cells/.test(error.message)
+        && error.issues.length === 2
+        && error.issues.every((issue) => issue.dropped === 'cell')
+    );
+  });
+});
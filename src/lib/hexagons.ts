@@ -0,0 +1,255 @@
+// Shared hexagon data contract between the Python backend, the API routes and the map.
+// The backend sends a record keyed by H3 index; the map works on a flat list.
+
+import { getResolution, isValidCell } from 'h3-js';
+
+export type Opposition = 'low' | 'medium' | 'high';
+
+export const OPPOSITION_LEVELS: Opposition[] = ['low', 'medium', 'high'];
+
+// Metrics for one cell, as sent by the backend
+export type HexagonDataItem = {
+  score: number; // 0-1 for color mapping
+  connection_points?: number;
+  latency_ms?: number;
+  avg_temperature?: number;
+  connection_normalized_score?: number;
+  latency_normalized_score?: number;
+  temperature_normalized_score?: number;
+  opposition?: Opposition;
+};
+
+// Backend payload keyed by H3 index
+export type HexagonDataMap = Record<string, HexagonDataItem>;
+
+// Frontend record, one per rendered cell
+export type HexData = HexagonDataItem & {
+  hex: string;
+};
+
+export type ValidationIssue = {
+  path: string;
+  message: string;
+  value?: unknown;
+  dropped?: 'cell' | 'field'; // what was left out of the data because of it
+};
+
+export type ValidationResult<T> = {
+  data: T;
+  issues: ValidationIssue[];
+};
+
+// Thrown when the backend answers with a payload that breaks the contract
+export class BackendContractError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[]) {
+    super(message);
+    this.name = 'BackendContractError';
+    this.issues = issues;
+  }
+}
+
+type FieldRule = {
+  kind: 'unit' | 'number' | 'count';
+};
+
+// Optional numeric fields; null is accepted and treated as missing
+const OPTIONAL_FIELDS: Record<Exclude<keyof HexagonDataItem, 'score' | 'opposition'>, FieldRule> = {
+  connection_points: { kind: 'count' },
+  latency_ms: { kind: 'number' },
+  avg_temperature: { kind: 'number' },
+  connection_normalized_score: { kind: 'unit' },
+  latency_normalized_score: { kind: 'unit' },
+  temperature_normalized_score: { kind: 'unit' },
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkNumber(
+  value: unknown,
+  rule: FieldRule,
+  path: string,
+  issues: ValidationIssue[],
+  dropped: ValidationIssue['dropped']
+): value is number {
+  if (typeof value !== 'number' || !isFinite(value)) {
+    issues.push({ path, message: 'Expected a finite number', value, dropped });
+    return false;
+  }
+  if (rule.kind === 'unit' && (value < 0 || value > 1)) {
+    issues.push({ path, message: 'Expected a value between 0 and 1', value, dropped });
+    return false;
+  }
+  if (rule.kind === 'count' && (value < 0 || !Number.isInteger(value))) {
+    issues.push({ path, message: 'Expected a non-negative integer', value, dropped });
+    return false;
+  }
+  return true;
+}
+
+export function isValidHexagonId(h3Index: unknown): h3Index is string {
+  return typeof h3Index === 'string' && isValidCell(h3Index);
+}
+
+// Validate one cell's metrics. Returns null when the cell is unusable (no valid
+// score); a bad optional field is left out and the rest of the cell kept.
+export function validateHexagonItem(raw: unknown, path: string, issues: ValidationIssue[]): HexagonDataItem | null {
+  if (!isPlainObject(raw)) {
+    issues.push({ path, message: 'Expected an object', value: raw, dropped: 'cell' });
+    return null;
+  }
+
+  if (!checkNumber(raw.score, { kind: 'unit' }, `${path}.score`, issues, 'cell')) {
+    return null;
+  }
+  const item: HexagonDataItem = { score: raw.score };
+
+  for (const [field, rule] of Object.entries(OPTIONAL_FIELDS) as [keyof typeof OPTIONAL_FIELDS, FieldRule][]) {
+    const value = raw[field];
+    if (value === undefined || value === null) continue;
+    if (checkNumber(value, rule, `${path}.${field}`, issues, 'field')) {
+      item[field] = value;
+    }
+  }
+
+  if (raw.opposition !== undefined && raw.opposition !== null) {
+    if (OPPOSITION_LEVELS.includes(raw.opposition as Opposition)) {
+      item.opposition = raw.opposition as Opposition;
+    } else {
+      issues.push({
+        path: `${path}.opposition`,
+        message: `Expected one of ${OPPOSITION_LEVELS.join(', ')}`,
+        value: raw.opposition,
+        dropped: 'field'
+      });
+    }
+  }
+
+  return item;
+}
+
+// Validate a backend hexagonData record. Invalid cells and invalid fields of
+// otherwise valid cells are left out and reported.
+export function validateHexagonDataMap(raw: unknown, path = 'hexagonData'): ValidationResult<HexagonDataMap> {
+  const issues: ValidationIssue[] = [];
+  const data: HexagonDataMap = {};
+
+  if (raw === undefined || raw === null) {
+    return { data, issues };
+  }
+  if (!isPlainObject(raw)) {
+    issues.push({ path, message: 'Expected an object keyed by H3 index', value: raw });
+    return { data, issues };
+  }
+
+  for (const [h3Index, value] of Object.entries(raw)) {
+    const cellPath = `${path}.${h3Index}`;
+    if (!isValidHexagonId(h3Index)) {
+      issues.push({ path: cellPath, message: 'Invalid H3 index', dropped: 'cell' });
+      continue;
+    }
+    const item = validateHexagonItem(value, cellPath, issues);
+    if (item) data[h3Index] = item;
+  }
+
+  return { data, issues };
+}
+
+// Highlighted cells come as a list (/score) or as weights keyed by H3 index (/information)
+export function validateHighlighted(raw: unknown, path = 'highlighted'): ValidationResult<Record<string, number> | undefined> {
+  const issues: ValidationIssue[] = [];
+  if (raw === undefined || raw === null) return { data: undefined, issues };
+
+  const data: Record<string, number> = {};
+  if (Array.isArray(raw)) {
+    raw.forEach((h3Index, i) => {
+      if (isValidHexagonId(h3Index)) {
+        data[h3Index] = 1;
+      } else {
+        issues.push({ path: `${path}[${i}]`, message: 'Invalid H3 index', value: h3Index });
+      }
+    });
+  } else if (isPlainObject(raw)) {
+    for (const [h3Index, weight] of Object.entries(raw)) {
+      if (!isValidHexagonId(h3Index)) {
+        issues.push({ path: `${path}.${h3Index}`, message: 'Invalid H3 index' });
+      } else if (typeof weight !== 'number' || !isFinite(weight)) {
+        issues.push({ path: `${path}.${h3Index}`, message: 'Expected a finite number', value: weight });
+      } else {
+        data[h3Index] = weight;
+      }
+    }
+  } else {
+    issues.push({ path, message: 'Expected a list of H3 indexes or an object of weights', value: raw });
+  }
+
+  return { data, issues };
+}
+
+export type BackendAnswer = {
+  response: string;
+  hexagonData: HexagonDataMap;
+  highlighted?: Record<string, number>;
+};
+
+// Validate a full /score or /information answer. Throws BackendContractError when
+// the answer itself is unusable; cell-level problems are returned as issues.
+export function parseBackendAnswer(raw: unknown): ValidationResult<BackendAnswer> {
+  if (!isPlainObject(raw)) {
+    throw new BackendContractError('Backend response is not a JSON object', [
+      { path: '', message: 'Expected an object', value: raw }
+    ]);
+  }
+  if (typeof raw.response !== 'string') {
+    throw new BackendContractError('Backend response has no answer text', [
+      { path: 'response', message: 'Expected a string', value: raw.response }
+    ]);
+  }
+
+  const hexagons = validateHexagonDataMap(raw.hexagonData);
+  const highlighted = validateHighlighted(raw.highlighted);
+
+  // A payload where every cell is broken is a contract violation, not a partial answer
+  const rawCellCount = isPlainObject(raw.hexagonData) ? Object.keys(raw.hexagonData).length : 0;
+  if (rawCellCount > 0 && Object.keys(hexagons.data).length === 0) {
+    throw new BackendContractError('Backend hexagonData contains no valid cells', hexagons.issues);
+  }
+  if (raw.hexagonData !== undefined && raw.hexagonData !== null && !isPlainObject(raw.hexagonData)) {
+    throw new BackendContractError('Backend hexagonData is malformed', hexagons.issues);
+  }
+
+  return {
+    data: {
+      response: raw.response,
+      hexagonData: hexagons.data,
+      highlighted: highlighted.data
+    },
+    issues: [...hexagons.issues, ...highlighted.issues]
+  };
+}
+
+export function toHexDataList(hexagonData: HexagonDataMap): HexData[] {
+  return Object.entries(hexagonData).map(([hex, item]) => ({ hex, ...item }));
+}
+
+export function toHexagonDataMap(hexData: HexData[]): HexagonDataMap {
+  return Object.fromEntries(hexData.map(({ hex, ...item }) => [hex, item]));
+}
+
+// Most common resolution among the cells, so shapes and sites compare like for like
+export function getDominantResolution(hexData: HexData[], fallback = 7): number {
+  const counts = new Map<number, number>();
+  hexData.forEach((d) => {
+    const res = getResolution(d.hex);
+    counts.set(res, (counts.get(res) || 0) + 1);
+  });
+  return Array.from(counts.entries()).reduce((best, entry) => (entry[1] > best[1] ? entry : best), [fallback, 0])[0];
+}
+
+// Keep issue lists bounded in responses and logs
+export function summarizeIssues(issues: ValidationIssue[], limit = 20): ValidationIssue[] {
+  return issues.slice(0, limit);
+}
@@ -0,0 +1,138 @@
+// Infrastructure reference overlays, loaded from the GeoJSON files in public/infrastructure
+
+import { RGBAColor } from './colors';
+
+export type InfrastructureLayerId = 'transmission-lines' | 'substations' | 'network' | 'power-plants';
+
+export type InfrastructureGeometry =
+  | { type: 'point'; coordinates: [number, number] }   // [lng, lat]
+  | { type: 'line'; coordinates: [number, number][] };
+
+export type InfrastructureFeature = {
+  layer: InfrastructureLayerId;
+  name: string;
+  kind: string;        // legend category: 'ixp', 'landing-station', a power plant's fuel...
+  geometry: InfrastructureGeometry;
+  voltageKv?: number;
+  capacityMw?: number;
+  operator?: string;
+};
+
+export type InfrastructureLayerInfo = {
+  label: string;
+  url: string;
+  kinds: Record<string, { label: string; color: RGBAColor }>;
+};
+
+export const INFRASTRUCTURE_LAYERS: Record<InfrastructureLayerId, InfrastructureLayerInfo> = {
+  'transmission-lines': {
+    label: 'HV transmission lines',
+    url: '/infrastructure/transmission-lines.geojson',
+    kinds: { line: { label: 'HV line', color: [251, 146, 60, 200] } },
+  },
+  substations: {
+    label: 'HV substations',
+    url: '/infrastructure/substations.geojson',
+    kinds: { substation: { label: 'Substation', color: [253, 230, 138, 255] } },
+  },
+  network: {
+    label: 'IXPs & landing stations',
+    url: '/infrastructure/network.geojson',
+    kinds: {
+      ixp: { label: 'Internet exchange', color: [96, 165, 250, 255] },
+      'landing-station': { label: 'Cable landing station', color: [192, 132, 252, 255] },
+    },
+  },
+  'power-plants': {
+    label: 'Power plants',
+    url: '/infrastructure/power-plants.geojson',
+    kinds: {
+      nuclear: { label: 'Nuclear', color: [250, 204, 21, 220] },
+      hydro: { label: 'Hydro', color: [56, 189, 248, 220] },
+      gas: { label: 'Gas', color: [248, 113, 113, 220] },
+      wind: { label: 'Wind', color: [134, 239, 172, 220] },
+      solar: { label: 'Solar', color: [253, 186, 116, 220] },
+      other: { label: 'Other', color: [161, 161, 170, 220] },
+    },
+  },
+};
+
+export const INFRASTRUCTURE_LAYER_IDS = Object.keys(INFRASTRUCTURE_LAYERS) as InfrastructureLayerId[];
+
+// Kind used when a feature doesn't name one the layer knows
+const DEFAULT_KINDS: Record<InfrastructureLayerId, string> = {
+  'transmission-lines': 'line',
+  substations: 'substation',
+  network: 'ixp',
+  'power-plants': 'other',
+};
+
+// Power plant markers grow with the square root of capacity, so area tracks megawatts
+export function plantRadiusMeters(capacityMw = 0): number {
+  return 1500 + 120 * Math.sqrt(Math.max(0, capacityMw));
+}
+
+export function getKindColor(layer: InfrastructureLayerId, kind: string): RGBAColor {
+  const { kinds } = INFRASTRUCTURE_LAYERS[layer];
+  return (kinds[kind] ?? kinds[DEFAULT_KINDS[layer]]).color;
+}
+
+export function getFeatureColor(feature: InfrastructureFeature): RGBAColor {
+  return getKindColor(feature.layer, feature.kind);
+}
+
+function isPosition(value: unknown): value is [number, number] {
+  return Array.isArray(value) &&
+    value.length >= 2 &&
+    typeof value[0] === 'number' && typeof value[1] === 'number' &&
+    Math.abs(value[0]) <= 180 && Math.abs(value[1]) <= 90;
+}
+
+function readNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function toGeometry(raw: unknown): InfrastructureGeometry | null {
+  if (typeof raw !== 'object' || raw === null) return null;
+  const { type, coordinates } = raw as { type?: unknown; coordinates?: unknown };
+  if (type === 'Point' && isPosition(coordinates)) {
+    return { type: 'point', coordinates: [coordinates[0], coordinates[1]] };
+  }
+  if (type === 'LineString' && Array.isArray(coordinates) && coordinates.length >= 2 && coordinates.every(isPosition)) {
+    return { type: 'line', coordinates: coordinates.map(([lng, lat]) => [lng, lat] as [number, number]) };
+  }
+  return null;
+}
+
+// Features with geometry the layer can't draw are skipped
+export function parseInfrastructureGeoJson(layer: InfrastructureLayerId, raw: unknown): InfrastructureFeature[] {
+  const features = (raw as { features?: unknown })?.features;
+  if (!Array.isArray(features)) {
+    throw new Error(`${INFRASTRUCTURE_LAYERS[layer].label}: expected a GeoJSON FeatureCollection`);
+  }
+
+  const { kinds } = INFRASTRUCTURE_LAYERS[layer];
+  return features.flatMap((feature, index): InfrastructureFeature[] => {
+    const geometry = toGeometry(feature?.geometry);
+    if (!geometry) return [];
+    const properties: Record<string, unknown> = feature?.properties ?? {};
+    const kind = String(properties.kind ?? properties.fuel ?? '');
+    return [{
+      layer,
+      name: typeof properties.name === 'string' ? properties.name : `${INFRASTRUCTURE_LAYERS[layer].label} ${index + 1}`,
+      kind: kind in kinds ? kind : DEFAULT_KINDS[layer],
+      geometry,
+      voltageKv: readNumber(properties.voltage_kv),
+      capacityMw: readNumber(properties.capacity_mw),
+      ...(typeof properties.operator === 'string' && { operator: properties.operator }),
+    }];
+  });
+}
+
+export async function loadInfrastructureLayer(layer: InfrastructureLayerId): Promise<InfrastructureFeature[]> {
+  const response = await fetch(INFRASTRUCTURE_LAYERS[layer].url);
+  if (!response.ok) {
+    throw new Error(`${INFRASTRUCTURE_LAYERS[layer].label}: HTTP error! status: ${response.status}`);
+  }
+  return parseInfrastructureGeoJson(layer, await response.json());
+}
@@ -0,0 +1,94 @@
+// Display units for the metrics the map colors and filters by
+
+import { NumericMetric } from './aggregation';
+import { HexData } from './hexagons';
+import { ScoreWeights, computeCompositeScore } from './scoring';
+
+export type MetricDefinition = {
+  label: string;
+  unit: string;           // shown after formatted values
+  displayScale: number;   // stored value × displayScale = shown value
+  digits: number;
+  domain: [number, number]; // stored values the color scale spans
+  fitToData?: boolean;    // raw units: the scale spans the values on the map, `domain` is the fallback
+  lowerIsBetter?: boolean;
+  divergingCenter?: number; // colored with a diverging palette centered here
+  integer?: boolean;        // counts, colored in whole-number classes
+  signed?: boolean;         // changes between datasets, shown as "+5%"
+};
+
+export const METRICS: Record<NumericMetric, MetricDefinition> = {
+  score: { label: 'Score', unit: '%', displayScale: 100, digits: 0, domain: [0, 1] },
+  connection_points: {
+    label: 'Connection points', unit: 'points', displayScale: 1, digits: 0, domain: [0, 10], fitToData: true, integer: true
+  },
+  latency_ms: {
+    label: 'Latency', unit: 'ms', displayScale: 1, digits: 0, domain: [0, 40], fitToData: true, lowerIsBetter: true
+  },
+  avg_temperature: {
+    label: 'Temperature', unit: '°C', displayScale: 1, digits: 1, domain: [0, 20], fitToData: true, lowerIsBetter: true,
+    divergingCenter: 12 // roughly the French annual mean
+  },
+  connection_normalized_score: { label: 'Connection score', unit: '%', displayScale: 100, digits: 0, domain: [0, 1] },
+  latency_normalized_score: { label: 'Latency score', unit: '%', displayScale: 100, digits: 0, domain: [0, 1] },
+  temperature_normalized_score: { label: 'Temperature score', unit: '%', displayScale: 100, digits: 0, domain: [0, 1] },
+};
+
+export type NumericLayer = 'score' | 'connection' | 'latency' | 'temperature';
+
+// Layers that can switch between the normalized score and raw units
+export type RawLayer = Exclude<NumericLayer, 'score'>;
+
+// Metric each numeric map layer colors by
+export const LAYER_METRICS: Record<NumericLayer, NumericMetric> = {
+  score: 'score',
+  connection: 'connection_normalized_score',
+  latency: 'latency_normalized_score',
+  temperature: 'temperature_normalized_score',
+};
+
+export const RAW_LAYER_METRICS: Record<RawLayer, NumericMetric> = {
+  connection: 'connection_points',
+  latency: 'latency_ms',
+  temperature: 'avg_temperature',
+};
+
+export function isRawLayer(layer: string): layer is RawLayer {
+  return Object.keys(RAW_LAYER_METRICS).includes(layer);
+}
+
+// Metric value for a cell, undefined when missing; the score follows custom weights when set
+export function getMetricValue(d: HexData, metric: NumericMetric, weights: ScoreWeights | null = null): number | undefined {
+  if (metric === 'score') return computeCompositeScore(d, weights);
+  const value = d[metric];
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+// 0.734 -> "73%"
+export function formatMetricValue(metric: MetricDefinition, value: number): string {
+  const shown = (value * metric.displayScale).toFixed(metric.digits);
+  const sign = metric.signed && Number(shown) > 0 ? '+' : '';
+  return metric.unit === '%' ? `${sign}${shown}%` : `${sign}${shown} ${metric.unit}`;
+}
+
+// Definition for the change in a metric between two datasets
+export function deltaMetric(metric: MetricDefinition): MetricDefinition {
+  const span = metric.domain[1] - metric.domain[0];
+  return { ...metric, label: `Δ ${metric.label}`, domain: [-span, span], divergingCenter: 0, signed: true, fitToData: true, integer: false };
+}
+
+// Definition for a metric rolled up with the 'count' method: the value is a number
+// of cells with data, not a quantity in the metric's units
+export function countMetric(metric: MetricDefinition): MetricDefinition {
+  return { label: `${metric.label} (cell count)`, unit: 'cells', displayScale: 1, digits: 0, domain: [0, 10], fitToData: true, integer: true };
+}
+
+export function formatCellCount(count: number): string {
+  return count === 1 ? '1 cell' : `${count} cells`;
+}
+
+// Values typed in display units (e.g. "65" for 65%) back to stored values
+export function parseMetricValue(metric: MetricDefinition, text: string): number | null {
+  const value = Number(text.trim());
+  return text.trim() !== '' && Number.isFinite(value) ? value / metric.displayScale : null;
+}
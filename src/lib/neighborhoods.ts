@@ -0,0 +1,81 @@
+// Neighborhood analysis: the k-ring of cells around a center cell, summarized,
+// and the dataset's best-scoring neighborhoods
+
+import { cellsToMultiPolygon, gridDisk } from 'h3-js';
+import { HexData } from './hexagons';
+
+export type NeighborhoodSummary = {
+  center: string;
+  k: number;
+  cells: string[];              // every cell of the k-ring, with or without data
+  covered: number;              // cells of the ring that are in the dataset
+  meanScore?: number;
+  minScore?: number;
+  highOppositionShare?: number; // among covered cells with a known opposition level
+};
+
+export const RING_SIZES = [1, 2, 3, 4, 5];
+
+// A neighborhood needs data for this share of its cells to be ranked,
+// so a lone good cell on the edge of the data doesn't win
+export const MIN_RING_COVERAGE = 0.75;
+
+// Best neighborhoods listed, none sharing a cell with a better one
+const BEST_NEIGHBORHOOD_COUNT = 3;
+
+export function summarizeNeighborhood(
+  center: string,
+  k: number,
+  cellsByHex: Map<string, HexData>,
+  getScore: (d: HexData) => number
+): NeighborhoodSummary {
+  const cells = gridDisk(center, k);
+  const present = cells.map((hex) => cellsByHex.get(hex)).filter((d): d is HexData => d !== undefined);
+  const scores = present.map(getScore);
+  const withOpposition = present.filter((d) => d.opposition);
+
+  return {
+    center,
+    k,
+    cells,
+    covered: present.length,
+    ...(scores.length > 0 && {
+      meanScore: scores.reduce((sum, v) => sum + v, 0) / scores.length,
+      minScore: Math.min(...scores)
+    }),
+    ...(withOpposition.length > 0 && {
+      highOppositionShare: withOpposition.filter((d) => d.opposition === 'high').length / withOpposition.length
+    })
+  };
+}
+
+// Rank every cell's k-ring by mean score (ties broken by the weakest cell) and keep
+// the best ones that don't overlap
+export function findBestNeighborhoods(
+  data: HexData[],
+  k: number,
+  getScore: (d: HexData) => number
+): NeighborhoodSummary[] {
+  const cellsByHex = new Map(data.map((d) => [d.hex, d]));
+  const ringSize = 3 * k * (k + 1) + 1; // cells in a k-ring away from pentagons
+
+  const ranked = data
+    .map((d) => summarizeNeighborhood(d.hex, k, cellsByHex, getScore))
+    .filter((n) => n.covered >= ringSize * MIN_RING_COVERAGE)
+    .sort((a, b) => (b.meanScore ?? 0) - (a.meanScore ?? 0) || (b.minScore ?? 0) - (a.minScore ?? 0));
+
+  const best: NeighborhoodSummary[] = [];
+  const taken = new Set<string>();
+  for (const neighborhood of ranked) {
+    if (neighborhood.cells.some((hex) => taken.has(hex))) continue;
+    best.push(neighborhood);
+    neighborhood.cells.forEach((hex) => taken.add(hex));
+    if (best.length === BEST_NEIGHBORHOOD_COUNT) break;
+  }
+  return best;
+}
+
+// Outer boundary of the ring, as polygons of [lng, lat] rings
+export function neighborhoodOutline(cells: string[]): number[][][][] {
+  return cellsToMultiPolygon(cells, true);
+}
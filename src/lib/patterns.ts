@@ -0,0 +1,63 @@
+// Fill patterns for FillStyleExtension, drawn once into a small canvas atlas (client only)
+
+import { MapViewState } from '@deck.gl/core';
+
+export type HatchPattern = 'hatch' | 'crosshatch';
+
+const PATTERN_SIZE = 16;
+
+// Pattern frames in the atlas, side by side
+export const HATCH_MAPPING: Record<HatchPattern, { x: number; y: number; width: number; height: number }> = {
+  hatch: { x: 0, y: 0, width: PATTERN_SIZE, height: PATTERN_SIZE },
+  crosshatch: { x: PATTERN_SIZE, y: 0, width: PATTERN_SIZE, height: PATTERN_SIZE },
+};
+
+// White strokes on transparent, used as a mask so the layer's fill color shows through
+export function createHatchAtlas(): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = PATTERN_SIZE * 2;
+  canvas.height = PATTERN_SIZE;
+  const context = canvas.getContext('2d');
+  if (!context) return canvas;
+
+  context.strokeStyle = '#ffffff';
+  context.lineWidth = 2;
+  context.lineCap = 'square';
+
+  // Diagonals that wrap across the tile edges so the pattern repeats seamlessly
+  const diagonal = (offsetX: number, flip: boolean) => {
+    for (const shift of [-PATTERN_SIZE, 0, PATTERN_SIZE]) {
+      context.beginPath();
+      if (flip) {
+        context.moveTo(offsetX + shift, 0);
+        context.lineTo(offsetX + shift + PATTERN_SIZE, PATTERN_SIZE);
+      } else {
+        context.moveTo(offsetX + shift, PATTERN_SIZE);
+        context.lineTo(offsetX + shift + PATTERN_SIZE, 0);
+      }
+      context.stroke();
+    }
+  };
+
+  context.save();
+  context.beginPath();
+  context.rect(0, 0, PATTERN_SIZE, PATTERN_SIZE);
+  context.clip();
+  diagonal(0, false);
+  context.restore();
+
+  context.save();
+  context.beginPath();
+  context.rect(PATTERN_SIZE, 0, PATTERN_SIZE, PATTERN_SIZE);
+  context.clip();
+  diagonal(PATTERN_SIZE, false);
+  diagonal(PATTERN_SIZE, true);
+  context.restore();
+
+  return canvas;
+}
+
+// Patterns are sized in world units; this keeps one tile about PATTERN_SIZE screen pixels wide
+export function hatchScaleForView(viewState: MapViewState): number {
+  return 78125 / 2 ** viewState.zoom;
+}
@@ -0,0 +1,70 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_LAYER, DEFAULT_MODE, ShareableState, isCameraOnlyChange, parseShareableState, serializeShareableState } from './permalink';
+import { EMPTY_FILTERS } from './filters';
+import { INITIAL_VIEW_STATE } from './viewport';
+
+const defaultState: ShareableState = {
+  layer: DEFAULT_LAYER,
+  mode: DEFAULT_MODE,
+  filters: EMPTY_FILTERS,
+  view: INITIAL_VIEW_STATE,
+  selected: []
+};
+
+describe('shareable state', () => {
+  test('defaults are left out of the link and come back missing', () => {
+    const search = serializeShareableState(defaultState);
+    assert.doesNotMatch(search, /layer=|mode=|f=|opp=|sel=|q=/);
+
+    const parsed = parseShareableState(search, INITIAL_VIEW_STATE);
+    assert.equal(parsed.layer, undefined);
+    assert.equal(parsed.mode, undefined);
+    assert.deepEqual(parsed.filters, EMPTY_FILTERS);
+    assert.equal(parsed.view?.latitude, Number(INITIAL_VIEW_STATE.latitude.toFixed(4)));
+    assert.equal(parsed.view?.zoom, INITIAL_VIEW_STATE.zoom);
+
+    // A page restoring the link falls back to the same defaults
+    assert.equal(parsed.layer ?? DEFAULT_LAYER, defaultState.layer);
+    assert.equal(parsed.mode ?? DEFAULT_MODE, defaultState.mode);
+  });
+
+  test('round-trips non-default state', () => {
+    const state: ShareableState = {
+      layer: 'latency',
+      mode: 'research',
+      filters: {
+        ranges: [
+          { metric: 'score', mode: 'percentile', min: 0.8, max: 1 },
+          { metric: 'latency_ms', mode: 'value', min: 0, max: 25 }
+        ],
+        excludedOpposition: ['high']
+      },
+      view: { ...INITIAL_VIEW_STATE, latitude: 48.8566, longitude: 2.3522, zoom: 8.5, pitch: 30, bearing: 10 },
+      selected: ['871fb4662ffffff'],
+      query: 'Best sites near Paris'
+    };
+
+    const parsed = parseShareableState(serializeShareableState(state), INITIAL_VIEW_STATE);
+    assert.equal(parsed.layer, 'latency');
+    assert.equal(parsed.mode, 'research');
+    assert.deepEqual(parsed.filters, state.filters);
+    assert.deepEqual(parsed.view, state.view);
+    assert.deepEqual(parsed.selected, state.selected);
+    assert.equal(parsed.query, state.query);
+  });
+
+  test('drops invalid parts', () => {
+    const parsed = parseShareableState('?layer=nope&mode=x&view=200,0,5&sel=abc&f=score:value:1:0', INITIAL_VIEW_STATE);
+    assert.equal(parsed.layer, undefined);
+    assert.equal(parsed.mode, undefined);
+    assert.equal(parsed.view, undefined);
+    assert.deepEqual(parsed.selected, []);
+    assert.deepEqual(parsed.filters?.ranges, []);
+  });
+
+  test('camera moves alone are told apart from other changes', () => {
+    assert.ok(isCameraOnlyChange('?view=1,2,3&layer=latency', '?layer=latency&view=4,5,6'));
+    assert.ok(!isCameraOnlyChange('?view=1,2,3', '?view=1,2,3&layer=latency'));
+  });
+});
@@ -0,0 +1,140 @@
+// Shareable map state encoded in the page URL
+
+import { MapViewState } from '@deck.gl/core';
+import { NUMERIC_METRICS, NumericMetric } from './aggregation';
+import { FILTER_SLOTS, MapFilters, RangeFilter, RangeMode } from './filters';
+import { OPPOSITION_LEVELS, Opposition, isValidHexagonId } from './hexagons';
+import { LAYER_METRICS } from './metrics';
+
+export type LayerType = 'score' | 'connection' | 'latency' | 'temperature' | 'opposition';
+export type ResearchMode = 'analysis' | 'research';
+
+export type ShareableState = {
+  layer: LayerType;
+  mode: ResearchMode;
+  filters: MapFilters;
+  view: MapViewState;
+  selected: string[];   // selected H3 cells
+  query?: string;       // question that produced the map data
+};
+
+// Left out of links; a link without them means these
+export const DEFAULT_LAYER: LayerType = 'score';
+export const DEFAULT_MODE: ResearchMode = 'analysis';
+
+const LAYERS: LayerType[] = ['score', 'connection', 'latency', 'temperature', 'opposition'];
+const MODES: ResearchMode[] = ['analysis', 'research'];
+const RANGE_MODES: RangeMode[] = ['value', 'percentile'];
+
+// Long selections are trimmed so links stay pasteable
+const MAX_SELECTED_IN_URL = 50;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function parseNumbers(value: string | null): number[] | null {
+  if (!value) return null;
+  const numbers = value.split(',').map(Number);
+  return numbers.every(Number.isFinite) ? numbers : null;
+}
+
+// f=score:percentile:0.8:1;latency_ms:value:0:25 - invalid entries are dropped
+function parseRanges(value: string | null): RangeFilter[] {
+  if (!value) return [];
+  return value.split(';').flatMap((entry): RangeFilter[] => {
+    const [metric, mode, minText, maxText] = entry.split(':');
+    const min = Number(minText);
+    const max = Number(maxText);
+    if (!NUMERIC_METRICS.includes(metric as NumericMetric) || !RANGE_MODES.includes(mode as RangeMode)) return [];
+    if (!Number.isFinite(min) || !Number.isFinite(max) || min > max) return [];
+    return [{
+      metric: metric as NumericMetric,
+      mode: mode as RangeMode,
+      ...(mode === 'percentile' ? { min: clamp(min, 0, 1), max: clamp(max, 0, 1) } : { min, max })
+    }];
+  }).slice(0, FILTER_SLOTS);
+}
+
+// Read whatever valid state the URL carries; invalid or missing parts are left out
+export function parseShareableState(search: string, baseView: MapViewState): Partial<ShareableState> {
+  const params = new URLSearchParams(search);
+  const state: Partial<ShareableState> = {};
+
+  const layer = params.get('layer') as LayerType | null;
+  if (layer && LAYERS.includes(layer)) state.layer = layer;
+
+  const mode = params.get('mode') as ResearchMode | null;
+  if (mode && MODES.includes(mode)) state.mode = mode;
+
+  const ranges = parseRanges(params.get('f'));
+  const excludedOpposition = (params.get('opp') || '')
+    .split(',')
+    .filter((level): level is Opposition => OPPOSITION_LEVELS.includes(level as Opposition));
+
+  // Older links carry filter=N: active layer value of at least N%
+  const legacyFilter = Number(params.get('filter'));
+  if (ranges.length === 0 && params.has('filter') && Number.isFinite(legacyFilter) && legacyFilter > 0) {
+    const metric = state.layer && state.layer !== 'opposition' ? LAYER_METRICS[state.layer] : 'score';
+    ranges.push({ metric, mode: 'value', min: clamp(legacyFilter, 0, 99) / 100, max: 1 });
+  }
+  state.filters = { ranges, excludedOpposition };
+
+  // view=lat,lng,zoom[,pitch,bearing]
+  const view = parseNumbers(params.get('view'));
+  if (view && view.length >= 3 && Math.abs(view[0]) <= 90 && Math.abs(view[1]) <= 180) {
+    state.view = {
+      ...baseView,
+      latitude: view[0],
+      longitude: view[1],
+      zoom: clamp(view[2], baseView.minZoom ?? 0, baseView.maxZoom ?? 20),
+      ...(view.length >= 5 && { pitch: clamp(view[3], 0, 85), bearing: view[4] })
+    };
+  }
+
+  const selected = params.get('sel');
+  if (selected) state.selected = selected.split(',').filter(isValidHexagonId);
+
+  const query = params.get('q');
+  if (query) state.query = query;
+
+  return state;
+}
+
+// Default values are left out to keep links short
+export function serializeShareableState(state: ShareableState): string {
+  const params = new URLSearchParams();
+  const { view } = state;
+
+  if (state.layer !== DEFAULT_LAYER) params.set('layer', state.layer);
+  if (state.mode !== DEFAULT_MODE) params.set('mode', state.mode);
+  if (state.filters.ranges.length > 0) {
+    params.set('f', state.filters.ranges
+      .map((range) => [range.metric, range.mode, Number(range.min.toFixed(4)), Number(range.max.toFixed(4))].join(':'))
+      .join(';'));
+  }
+  if (state.filters.excludedOpposition.length > 0) params.set('opp', state.filters.excludedOpposition.join(','));
+  params.set('view', [
+    view.latitude.toFixed(4),
+    view.longitude.toFixed(4),
+    view.zoom.toFixed(2),
+    Math.round(view.pitch ?? 0),
+    Math.round(view.bearing ?? 0)
+  ].join(','));
+  if (state.selected.length > 0) params.set('sel', state.selected.slice(0, MAX_SELECTED_IN_URL).join(','));
+  if (state.query) params.set('q', state.query);
+
+  const search = params.toString().replace(/%2C/g, ',').replace(/%3A/g, ':').replace(/%3B/g, ';');
+  return search ? `?${search}` : '';
+}
+
+// Camera moves alone replace the history entry; anything else gets its own entry
+export function isCameraOnlyChange(previousSearch: string, nextSearch: string): boolean {
+  const previous = new URLSearchParams(previousSearch);
+  const next = new URLSearchParams(nextSearch);
+  previous.delete('view');
+  next.delete('view');
+  previous.sort();
+  next.sort();
+  return previous.toString() === next.toString();
+}
@@ -0,0 +1,31 @@
+// Seeded pseudo-random numbers, so generated data is the same on every run
+
+export type Random = () => number; // uniform in [0, 1)
+
+// FNV-1a, to turn text seeds (e.g. a question) into a number
+export function hashSeed(seed: string | number): number {
+  const text = String(seed);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32 - small and fast, plenty for sample data
+export function createRandom(seed: string | number): Random {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Roughly normal noise (sum of uniforms), centred on 0
+export function gaussian(random: Random, spread = 1): number {
+  return (random() + random() + random() - 1.5) * spread;
+}
@@ -0,0 +1,262 @@
+// Timeouts, bounded retries and a circuit breaker for backend calls (server only)
+
+export type ResilienceOptions = {
+  timeoutMs: number;      // per attempt for the headers, then per read of the body
+  retries: number;        // extra attempts after the first
+  backoffMs: number;      // base delay, doubled on every retry
+  signal?: AbortSignal;   // caller cancellation, never retried
+};
+
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+// Thrown when the backend could not be reached; `reason` is safe to show users
+export class BackendUnavailableError extends Error {
+  constructor(public reason: string, options?: { cause?: unknown }) {
+    super(reason, options);
+    this.name = 'BackendUnavailableError';
+  }
+}
+
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+export const DEFAULT_RESILIENCE: ResilienceOptions = {
+  timeoutMs: readNumber(process.env.BACKEND_TIMEOUT_MS, 15000),
+  retries: readNumber(process.env.BACKEND_RETRIES, 2),
+  backoffMs: readNumber(process.env.BACKEND_BACKOFF_MS, 300),
+};
+
+// Opens after `failureThreshold` consecutive failures and lets a single
+// trial request through once `cooldownMs` has passed
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private failureThreshold: number, private cooldownMs: number) {}
+
+  get state(): BreakerState {
+    if (this.failures < this.failureThreshold) return 'closed';
+    return Date.now() - this.openedAt >= this.cooldownMs ? 'half-open' : 'open';
+  }
+
+  // Whether a request may go out now
+  tryAcquire(): boolean {
+    const state = this.state;
+    if (state === 'closed') return true;
+    if (state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  // A trial request cancelled by the caller says nothing about the backend
+  releaseTrial(): void {
+    this.trialInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.failures >= this.failureThreshold) this.openedAt = Date.now();
+  }
+
+  retryInMs(): number {
+    return Math.max(0, this.cooldownMs - (Date.now() - this.openedAt));
+  }
+}
+
+// One breaker per process, shared by every route that calls the backend
+const globalForBreaker = globalThis as typeof globalThis & { backendBreaker?: CircuitBreaker };
+
+export const backendBreaker = globalForBreaker.backendBreaker ??= new CircuitBreaker(
+  readNumber(process.env.BACKEND_BREAKER_THRESHOLD, 5),
+  readNumber(process.env.BACKEND_BREAKER_COOLDOWN_MS, 30000)
+);
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Server errors and rate limits are worth another try; other 4xx are not
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+// The same response, with a timer running while each read of the body waits on
+// the backend. Reads only happen when the caller pulls, so an unread body never times out.
+// `onEnd` learns whether the body was read to the end.
+function withBodyTimeout(
+  response: Response,
+  startTimer: () => void,
+  stopTimer: () => void,
+  onEnd: (completed: boolean) => void
+): Response {
+  if (!response.body) {
+    onEnd(true);
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      startTimer();
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          onEnd(true);
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        onEnd(false);
+        throw error;
+      } finally {
+        stopTimer();
+      }
+    },
+    cancel(reason) {
+      onEnd(false);
+      return reader.cancel(reason);
+    }
+  }, { highWaterMark: 0 });
+
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers
+  });
+}
+
+// fetch with a per-attempt timeout, retries with exponential backoff and jitter,
+// and the shared circuit breaker. Non-OK responses that are not retried are returned as-is.
+// A body that stalls for `timeoutMs` errors with a BackendUnavailableError.
+export async function resilientFetch(
+  url: string,
+  init: RequestInit,
+  options: Partial<ResilienceOptions> = {},
+  breaker: CircuitBreaker = backendBreaker
+): Promise<Response> {
+  const { timeoutMs, retries, backoffMs, signal } = { ...DEFAULT_RESILIENCE, ...options };
+
+  if (!breaker.tryAcquire()) {
+    throw new BackendUnavailableError(
+      `Backend marked unavailable after repeated failures; retrying in ${Math.ceil(breaker.retryInMs() / 1000)}s`
+    );
+  }
+
+  let lastReason = 'Backend request failed';
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) {
+      const delay = backoffMs * 2 ** (attempt - 1) * (0.5 + Math.random() / 2);
+      try {
+        await sleep(delay, signal);
+      } catch (error) {
+        breaker.releaseTrial();
+        throw error;
+      }
+    }
+
+    // The timeout covers waiting for headers and then every read of the body, so a
+    // backend that stalls mid-answer is cut off too; a long body that keeps coming is fine.
+    // Caller cancellation keeps propagating to the body.
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let timedOut = false;
+    const startTimer = (onTimeout: () => void) => {
+      timer = setTimeout(() => {
+        timedOut = true;
+        onTimeout();
+      }, timeoutMs);
+    };
+    const stopTimer = () => clearTimeout(timer);
+    const onAbort = () => controller.abort(signal?.reason);
+    const release = () => {
+      stopTimer();
+      signal?.removeEventListener('abort', onAbort);
+    };
+    let bodyPending = false;
+
+    if (signal?.aborted) controller.abort(signal.reason);
+    else signal?.addEventListener('abort', onAbort, { once: true });
+    startTimer(() => controller.abort());
+
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal });
+      if (response.ok || !isRetryableStatus(response.status)) {
+        // Other 4xx are about the request, not the backend's health. An OK
+        // response only counts as a success once its body has arrived.
+        if (!response.ok) breaker.releaseTrial();
+
+        stopTimer();
+        bodyPending = true;
+        return withBodyTimeout(
+          response,
+          () => startTimer(() => {
+            breaker.recordFailure();
+            controller.abort(new BackendUnavailableError(`Backend stalled for ${timeoutMs / 1000}s while sending its answer`));
+          }),
+          stopTimer,
+          (completed) => {
+            release();
+            if (completed && response.ok) breaker.recordSuccess();
+            else breaker.releaseTrial();
+          }
+        );
+      }
+      lastReason = `Backend returned ${response.status} ${response.statusText}`.trim();
+      lastError = undefined;
+    } catch (error) {
+      // The user cancelled - not the backend's fault, and not worth retrying
+      if (signal?.aborted) {
+        breaker.releaseTrial();
+        throw error;
+      }
+
+      lastError = error;
+      lastReason = timedOut
+        ? `Backend did not respond within ${timeoutMs / 1000}s`
+        : `Backend unreachable (${error instanceof Error ? error.message : 'network error'})`;
+    } finally {
+      if (!bodyPending) release();
+    }
+  }
+
+  breaker.recordFailure();
+  throw new BackendUnavailableError(
+    retries > 0 ? `${lastReason} after ${retries + 1} attempts` : lastReason,
+    { cause: lastError }
+  );
+}
+
+// Short reason for a failed backend call, suitable for the response body
+export function describeBackendError(error: unknown): string {
+  if (error instanceof BackendUnavailableError) return error.reason;
+  if (error instanceof Error) return error.message;
+  return 'Unknown backend error';
+}
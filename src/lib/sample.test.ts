@@ -0,0 +1,43 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { cellToLatLng, getResolution } from 'h3-js';
+import { generateFranceSample, sampleCellMetrics } from './sample';
+
+describe('generateFranceSample', () => {
+  const sample = generateFranceSample();
+
+  test('tiles France at resolution 5 by default', () => {
+    assert.ok(sample.length > 2000 && sample.length < 2600, `got ${sample.length} cells`);
+    assert.ok(sample.every((d) => getResolution(d.hex) === 5));
+  });
+
+  test('is reproducible for a seed and varies between seeds', () => {
+    assert.deepEqual(generateFranceSample(), sample);
+    const other = generateFranceSample({ seed: 'other' });
+    assert.deepEqual(other.map((d) => d.hex), sample.map((d) => d.hex));
+    assert.notDeepEqual(other, sample);
+  });
+
+  test('keeps metrics within the contract', () => {
+    for (const d of sample) {
+      for (const value of [d.score, d.connection_normalized_score, d.latency_normalized_score, d.temperature_normalized_score]) {
+        assert.ok(value !== undefined && value >= 0 && value <= 1);
+      }
+      assert.ok(Number.isInteger(d.connection_points) && d.connection_points! >= 0);
+      assert.ok(d.latency_ms! > 0);
+      assert.ok(d.opposition);
+    }
+  });
+
+  test('is cooler in the north than in the south', () => {
+    const meanTemperature = (cells: typeof sample) => cells.reduce((sum, d) => sum + d.avg_temperature!, 0) / cells.length;
+    const north = sample.filter((d) => cellToLatLng(d.hex)[0] > 49);
+    const south = sample.filter((d) => cellToLatLng(d.hex)[0] < 44);
+    assert.ok(meanTemperature(north) < meanTemperature(south));
+  });
+
+  test('metrics for a cell depend only on the cell and the seed', () => {
+    const { hex } = sample[0];
+    assert.deepEqual(sampleCellMetrics(hex), sampleCellMetrics(hex, 'france'));
+  });
+});
@@ -0,0 +1,117 @@
+// Seeded nationwide sample dataset for mainland France and Corsica.
+// Same seed and resolution always give the same cells and metrics.
+
+import { cellToLatLng, cellToParent, getResolution, polygonToCells } from 'h3-js';
+import { HexData, HexagonDataItem, OPPOSITION_LEVELS } from './hexagons';
+import { createRandom, gaussian } from './random';
+
+export type SampleOptions = {
+  resolution?: number;
+  seed?: string | number;
+};
+
+type LatLng = [number, number];
+
+// Simplified coastline and land borders, [lat, lng]
+export const FRANCE_BORDER: LatLng[][] = [
+  [
+    [51.05, 2.37], [50.81, 2.63], [50.7, 3.18], [50.5, 3.6], [50.33, 4.15], [50.13, 4.45], [50.15, 4.83],
+    [49.8, 4.85], [49.55, 5.45], [49.5, 5.85], [49.47, 6.37], [49.2, 6.8], [49.15, 7.4], [48.97, 8.23],
+    [48.6, 7.8], [48.0, 7.58], [47.59, 7.59], [47.45, 7.0], [47.0, 6.75], [46.5, 6.1], [46.2, 6.0],
+    [46.4, 6.8], [46.05, 7.0], [45.83, 6.95], [45.4, 7.15], [44.85, 6.75], [44.4, 6.95], [44.15, 7.6],
+    [43.78, 7.5], [43.55, 7.05], [43.1, 6.15], [43.2, 5.4], [43.35, 4.8], [43.5, 4.0], [43.1, 3.1],
+    [42.45, 3.15], [42.4, 2.2], [42.5, 1.72], [42.8, 0.7], [42.8, -0.3], [43.0, -1.0], [43.35, -1.78],
+    [43.5, -1.5], [44.5, -1.25], [45.55, -1.1], [46.15, -1.2], [46.5, -1.8], [47.0, -2.2], [47.25, -2.2],
+    [47.5, -2.8], [47.7, -3.4], [47.8, -4.35], [48.05, -4.7], [48.4, -4.78], [48.65, -4.5], [48.8, -3.5],
+    [48.5, -2.7], [48.65, -2.0], [48.65, -1.55], [49.7, -1.95], [49.65, -1.25], [49.35, -1.1],
+    [49.3, -0.2], [49.5, 0.1], [49.85, 0.6], [49.95, 1.2], [50.2, 1.6], [50.75, 1.6], [50.95, 1.85],
+  ],
+  [
+    [43.0, 9.4], [42.7, 9.45], [42.0, 9.55], [41.4, 9.25], [41.6, 8.8], [42.1, 8.6], [42.5, 8.65], [42.7, 9.1],
+  ],
+];
+
+// Major internet exchange points; latency grows with distance to the nearest one
+export const IXPS = [
+  { name: 'Paris', lat: 48.86, lng: 2.35 },
+  { name: 'Marseille', lat: 43.3, lng: 5.37 },
+];
+
+// Mountain ranges as peaks that fall off linearly to the lowland altitude
+const RELIEF = [
+  { name: 'Alps', lat: 45.3, lng: 6.6, radiusKm: 120, altitude: 1500 },
+  { name: 'Pyrenees west', lat: 42.85, lng: -0.5, radiusKm: 60, altitude: 1200 },
+  { name: 'Pyrenees centre', lat: 42.8, lng: 0.6, radiusKm: 60, altitude: 1400 },
+  { name: 'Pyrenees east', lat: 42.6, lng: 2.0, radiusKm: 60, altitude: 1200 },
+  { name: 'Massif Central', lat: 45.3, lng: 2.9, radiusKm: 130, altitude: 800 },
+  { name: 'Jura', lat: 46.6, lng: 6.1, radiusKm: 60, altitude: 700 },
+  { name: 'Vosges', lat: 48.1, lng: 7.0, radiusKm: 50, altitude: 600 },
+  { name: 'Corsica', lat: 42.2, lng: 9.05, radiusKm: 60, altitude: 900 },
+];
+
+const LOWLAND_ALTITUDE = 100;
+
+export function distanceKm(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(a));
+}
+
+// Rough altitude in metres, good enough to cool the mountains down
+export function estimateAltitude(lat: number, lng: number): number {
+  return RELIEF.reduce((altitude, range) => {
+    const distance = distanceKm(lat, lng, range.lat, range.lng);
+    const rangeAltitude = range.altitude * Math.max(0, 1 - distance / range.radiusKm);
+    return Math.max(altitude, rangeAltitude);
+  }, LOWLAND_ALTITUDE);
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+// Metrics follow geography: temperature by latitude and altitude, latency and
+// connection points by distance to the nearest IXP. Noise is seeded per cell,
+// and opposition per parent cell so it comes in local clusters.
+export function sampleCellMetrics(hex: string, seed: string | number = 'france'): HexagonDataItem {
+  const random = createRandom(`${seed}:${hex}`);
+  const [lat, lng] = cellToLatLng(hex);
+
+  const avgTemperature = 15.5 - 0.75 * (lat - 43) - 0.0065 * estimateAltitude(lat, lng) + gaussian(random, 0.8);
+  const ixpDistance = Math.min(...IXPS.map((ixp) => distanceKm(lat, lng, ixp.lat, ixp.lng)));
+  const latencyMs = 3 + ixpDistance / 22 + Math.abs(gaussian(random, 2));
+  const connectionPoints = Math.max(0, Math.round(6 * Math.exp(-ixpDistance / 250) + gaussian(random, 1.5)));
+
+  const temperatureScore = clamp01((20 - avgTemperature) / 12);
+  const latencyScore = clamp01(1 - (latencyMs - 3) / 35);
+  const connectionScore = clamp01(connectionPoints / 6);
+
+  const parentResolution = Math.max(0, Math.min(4, getResolution(hex) - 2));
+  const oppositionRoll = createRandom(`${seed}:${cellToParent(hex, parentResolution)}`)() * 0.8 + random() * 0.2;
+
+  return {
+    score: round((temperatureScore + latencyScore + connectionScore) / 3),
+    avg_temperature: round(avgTemperature, 1),
+    latency_ms: round(latencyMs, 1),
+    connection_points: connectionPoints,
+    temperature_normalized_score: round(temperatureScore),
+    latency_normalized_score: round(latencyScore),
+    connection_normalized_score: round(connectionScore),
+    opposition: OPPOSITION_LEVELS[oppositionRoll < 0.6 ? 0 : oppositionRoll < 0.85 ? 1 : 2],
+  };
+}
+
+// Tile France with cells at the given resolution: ~2.3k cells at 5, ~16k at 6
+export function generateFranceSample({ resolution = 5, seed = 'france' }: SampleOptions = {}): HexData[] {
+  const cells = new Set(FRANCE_BORDER.flatMap((polygon) => polygonToCells(polygon, resolution)));
+  return Array.from(cells)
+    .sort()
+    .map((hex) => ({ hex, ...sampleCellMetrics(hex, seed) }));
+}
@@ -0,0 +1,242 @@
+// Color scales: a palette plus a classification that maps metric values to colors
+
+import { RGBAColor } from './colors';
+
+export type PaletteKind = 'sequential' | 'diverging';
+
+export type PaletteId =
+  | 'red-yellow-green'
+  | 'viridis'
+  | 'cividis'
+  | 'yellow-green-blue'
+  | 'red-yellow-blue'
+  | 'purple-orange';
+
+type RGB = [number, number, number];
+
+export type Palette = {
+  label: string;
+  kind: PaletteKind;
+  colorblindSafe: boolean;
+  stops: [number, RGB][]; // position 0-1 → color, low (worst) to high (best)
+};
+
+export type Classification = 'linear' | 'quantile' | 'custom';
+
+export type ScaleConfig = {
+  palette: PaletteId;
+  classification: Classification;
+  classCount: number;                       // quantile classes
+  customBreaks: Record<string, number[]>;   // class boundaries per metric, in stored units
+};
+
+// One legend entry: a class, or a sample along a linear scale (from === to)
+export type LegendItem = {
+  color: RGBAColor;
+  from: number;
+  to: number;
+  count?: number; // cells in the class
+};
+
+export type ColorScaleOptions = {
+  metricId?: string;   // custom breaks are looked up by metric
+  center?: number;     // diverging midpoint; sequential palettes give way to DIVERGING_FALLBACK
+  inverted?: boolean;  // lower values take the "good" end of the palette
+  integer?: boolean;   // one class per whole number, whatever the classification
+};
+
+export type ColorScale = {
+  classification: Classification | 'integer';
+  domain: [number, number];
+  breaks: number[];       // class boundaries, empty for linear
+  items: LegendItem[];
+  getColor: (value: number, alpha?: number) => RGBAColor;
+};
+
+export const PALETTES: Record<PaletteId, Palette> = {
+  'red-yellow-green': {
+    label: 'Classic red-yellow-green',
+    kind: 'sequential',
+    colorblindSafe: false,
+    stops: [[0, [255, 100, 50]], [0.3, [255, 255, 50]], [0.7, [255, 255, 255]], [1, [155, 255, 100]]],
+  },
+  viridis: {
+    label: 'Viridis',
+    kind: 'sequential',
+    colorblindSafe: true,
+    stops: [[0, [68, 1, 84]], [0.25, [59, 82, 139]], [0.5, [33, 145, 140]], [0.75, [94, 201, 98]], [1, [253, 231, 37]]],
+  },
+  cividis: {
+    label: 'Cividis',
+    kind: 'sequential',
+    colorblindSafe: true,
+    stops: [[0, [0, 34, 78]], [0.25, [66, 78, 108]], [0.5, [125, 124, 120]], [0.75, [188, 175, 111]], [1, [254, 232, 56]]],
+  },
+  'yellow-green-blue': {
+    label: 'Yellow-green-blue',
+    kind: 'sequential',
+    colorblindSafe: true,
+    stops: [[0, [255, 255, 204]], [0.25, [161, 218, 180]], [0.5, [65, 182, 196]], [0.75, [44, 127, 184]], [1, [37, 52, 148]]],
+  },
+  'red-yellow-blue': {
+    label: 'Red-yellow-blue',
+    kind: 'diverging',
+    colorblindSafe: true,
+    stops: [[0, [215, 48, 39]], [0.25, [252, 141, 89]], [0.5, [254, 224, 144]], [0.75, [145, 191, 219]], [1, [69, 117, 180]]],
+  },
+  'purple-orange': {
+    label: 'Orange-purple',
+    kind: 'diverging',
+    colorblindSafe: true,
+    stops: [[0, [230, 97, 1]], [0.25, [253, 184, 99]], [0.5, [247, 247, 247]], [0.75, [178, 171, 210]], [1, [94, 60, 153]]],
+  },
+};
+
+export const PALETTE_IDS = Object.keys(PALETTES) as PaletteId[];
+
+export const DEFAULT_SCALE: ScaleConfig = {
+  palette: 'red-yellow-green',
+  classification: 'linear',
+  classCount: 5,
+  customBreaks: {},
+};
+
+// Samples shown in the legend of a linear scale
+const LINEAR_LEGEND_STEPS = 5;
+
+// Used when a metric needs a diverging palette but a sequential one is selected
+export const DIVERGING_FALLBACK: PaletteId = 'red-yellow-blue';
+
+// Beyond this many whole-number classes the last one takes the rest
+const MAX_INTEGER_CLASSES = 7;
+
+// Color at position t (0-1) along the palette
+export function samplePalette(palette: Palette, t: number, alpha = 220): RGBAColor {
+  const position = Math.max(0, Math.min(1, t));
+  const upper = palette.stops.findIndex(([at]) => at >= position);
+  if (upper <= 0) return [...palette.stops[0][1], alpha];
+
+  const [fromAt, from] = palette.stops[upper - 1];
+  const [toAt, to] = palette.stops[upper];
+  const ratio = toAt === fromAt ? 0 : (position - fromAt) / (toAt - fromAt);
+  return [
+    Math.round(from[0] + (to[0] - from[0]) * ratio),
+    Math.round(from[1] + (to[1] - from[1]) * ratio),
+    Math.round(from[2] + (to[2] - from[2]) * ratio),
+    alpha,
+  ];
+}
+
+// Class boundaries that split the values into equally sized groups; duplicates are
+// merged, so clustered data can end up with fewer classes than asked for
+export function quantileBreaks(values: number[], classCount: number): number[] {
+  const sorted = values.filter((v) => Number.isFinite(v)).sort((a, b) => a - b);
+  if (sorted.length === 0) return [];
+
+  const breaks: number[] = [];
+  for (let i = 1; i < classCount; i++) {
+    const value = sorted[Math.min(sorted.length - 1, Math.floor((i * sorted.length) / classCount))];
+    if (value > sorted[0] && !breaks.includes(value)) breaks.push(value);
+  }
+  return breaks;
+}
+
+// Smallest and largest finite value, or undefined when there are none
+export function extent(values: number[]): [number, number] | undefined {
+  const finite = values.filter((v) => Number.isFinite(v));
+  if (finite.length === 0) return undefined;
+  return [Math.min(...finite), Math.max(...finite)];
+}
+
+// Build a scale for one metric. `values` are the values on the map, used by
+// quantile breaks and legend counts.
+export function createColorScale(
+  config: ScaleConfig,
+  domain: [number, number],
+  values: number[],
+  options: ColorScaleOptions = {}
+): ColorScale {
+  const needsDiverging = options.center !== undefined && PALETTES[config.palette].kind !== 'diverging';
+  const palette = PALETTES[needsDiverging ? DIVERGING_FALLBACK : config.palette];
+  const [min, max] = domain;
+  const center = Math.max(min, Math.min(max, options.center ?? (min + max) / 2));
+
+  // Value → palette position; diverging palettes put `center` at the middle color
+  const position = (value: number): number => {
+    let t: number;
+    if (palette.kind === 'diverging') {
+      t = value <= center
+        ? (center === min ? 0.5 : 0.5 * (value - min) / (center - min))
+        : (max === center ? 0.5 : 0.5 + 0.5 * (value - center) / (max - center));
+    } else {
+      t = max === min ? 0.5 : (value - min) / (max - min);
+    }
+    return options.inverted ? 1 - t : t;
+  };
+
+  const countIn = (classOf: (value: number) => number, classCount: number) => {
+    const counts = new Array(classCount).fill(0);
+    values.forEach((value) => {
+      if (Number.isFinite(value)) counts[classOf(value)]++;
+    });
+    return counts;
+  };
+
+  if (options.integer) {
+    // Classes 0, 1, 2 ... with the last one open-ended
+    const first = Math.floor(min);
+    const classCount = Math.max(1, Math.min(MAX_INTEGER_CLASSES, Math.floor(max) - first + 1));
+    const classOf = (value: number) => Math.max(0, Math.min(classCount - 1, Math.floor(value) - first));
+    const classColor = (index: number, alpha?: number) =>
+      samplePalette(palette, classCount === 1 ? 0.5 : index / (classCount - 1), alpha);
+    const counts = countIn(classOf, classCount);
+    return {
+      classification: 'integer',
+      domain,
+      breaks: Array.from({ length: classCount - 1 }, (_, i) => first + i + 1),
+      items: counts.map((count, i) => ({
+        color: classColor(i),
+        from: first + i,
+        to: i === classCount - 1 ? Math.max(first + i, Math.floor(max)) : first + i,
+        count,
+      })),
+      getColor: (value, alpha) => classColor(classOf(value), alpha),
+    };
+  }
+
+  if (config.classification === 'linear') {
+    const items = Array.from({ length: LINEAR_LEGEND_STEPS }, (_, i) => {
+      const value = min + ((max - min) * i) / (LINEAR_LEGEND_STEPS - 1);
+      return { color: samplePalette(palette, position(value)), from: value, to: value };
+    });
+    return {
+      classification: 'linear',
+      domain,
+      breaks: [],
+      items,
+      getColor: (value, alpha) => samplePalette(palette, position(value), alpha),
+    };
+  }
+
+  const breaks = config.classification === 'quantile'
+    ? quantileBreaks(values, config.classCount)
+    : (config.customBreaks[options.metricId ?? ''] || []).filter((b) => b > min && b < max).sort((a, b) => a - b);
+
+  // Classes take evenly spaced palette colors; a lone class gets the middle one
+  const classColor = (index: number, alpha?: number) => {
+    const t = breaks.length === 0 ? 0.5 : index / breaks.length;
+    return samplePalette(palette, options.inverted ? 1 - t : t, alpha);
+  };
+  const classOf = (value: number) => breaks.filter((b) => value >= b).length;
+
+  const bounds = [min, ...breaks, max];
+  const counts = countIn(classOf, breaks.length + 1);
+
+  return {
+    classification: config.classification,
+    domain,
+    breaks,
+    items: counts.map((count, i) => ({ color: classColor(i), from: bounds[i], to: bounds[i + 1], count })),
+    getColor: (value, alpha) => classColor(classOf(value), alpha),
+  };
+}
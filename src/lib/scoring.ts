@@ -0,0 +1,79 @@
+// Client-side composite scoring from the normalized factor scores sent by the backend
+
+export type ScoreFactor = 'connection' | 'latency' | 'temperature';
+
+export type ScoreWeights = Record<ScoreFactor, number>;
+
+export type ScoreInputs = {
+  score: number;
+  connection_normalized_score?: number;
+  latency_normalized_score?: number;
+  temperature_normalized_score?: number;
+};
+
+export type WeightPreset = {
+  id: string;
+  label: string;
+  weights: ScoreWeights | null; // null keeps the backend score untouched
+};
+
+export const SCORE_FACTORS: ScoreFactor[] = ['connection', 'latency', 'temperature'];
+
+export const WEIGHT_PRESETS: WeightPreset[] = [
+  { id: 'backend', label: 'Backend score', weights: null },
+  { id: 'balanced', label: 'Balanced', weights: { connection: 1, latency: 1, temperature: 1 } },
+  { id: 'latency-critical', label: 'Latency-critical', weights: { connection: 0.3, latency: 0.6, temperature: 0.1 } },
+  { id: 'cooling-first', label: 'Cooling-first', weights: { connection: 0.2, latency: 0.2, temperature: 0.6 } },
+  { id: 'connectivity-first', label: 'Connectivity-first', weights: { connection: 0.6, latency: 0.3, temperature: 0.1 } },
+];
+
+function getFactorScore(d: ScoreInputs, factor: ScoreFactor): number | undefined {
+  switch (factor) {
+    case 'connection':
+      return d.connection_normalized_score;
+    case 'latency':
+      return d.latency_normalized_score;
+    case 'temperature':
+      return d.temperature_normalized_score;
+  }
+}
+
+// Weighted mean of the available factor scores. Factors missing from a cell are
+// left out of both numerator and denominator so they don't drag the score to 0.
+export function computeCompositeScore(d: ScoreInputs, weights: ScoreWeights | null): number {
+  if (!weights) return d.score;
+
+  let weightedSum = 0;
+  let totalWeight = 0;
+  for (const factor of SCORE_FACTORS) {
+    const value = getFactorScore(d, factor);
+    const weight = Math.max(0, weights[factor]);
+    if (value === undefined || value === null || isNaN(value) || weight === 0) continue;
+    weightedSum += Math.max(0, Math.min(1, value)) * weight;
+    totalWeight += weight;
+  }
+
+  if (totalWeight === 0) return d.score;
+  return weightedSum / totalWeight;
+}
+
+// Share of the total weight carried by each factor, for display
+export function normalizeWeights(weights: ScoreWeights): ScoreWeights {
+  const total = SCORE_FACTORS.reduce((sum, factor) => sum + Math.max(0, weights[factor]), 0);
+  if (total === 0) return { connection: 0, latency: 0, temperature: 0 };
+  return {
+    connection: Math.max(0, weights.connection) / total,
+    latency: Math.max(0, weights.latency) / total,
+    temperature: Math.max(0, weights.temperature) / total,
+  };
+}
+
+export function findMatchingPreset(weights: ScoreWeights | null): WeightPreset | undefined {
+  if (!weights) return WEIGHT_PRESETS[0];
+  const normalized = normalizeWeights(weights);
+  return WEIGHT_PRESETS.find((preset) => {
+    if (!preset.weights) return false;
+    const presetNormalized = normalizeWeights(preset.weights);
+    return SCORE_FACTORS.every((factor) => Math.abs(presetNormalized[factor] - normalized[factor]) < 0.001);
+  });
+}
@@ -0,0 +1,228 @@
+// Candidate sites imported from CSV (lat/lng) or GeoJSON (points and polygons)
+
+import { latLngToCell, polygonToCells } from 'h3-js';
+
+export type SiteGeometry =
+  | { type: 'point'; coordinates: [number, number] }      // [lng, lat]
+  | { type: 'polygon'; coordinates: [number, number][][] }; // rings of [lng, lat]
+
+export type ImportedSite = {
+  id: string;
+  name: string;
+  geometry: SiteGeometry;
+  cells: string[]; // H3 cells covering the site
+};
+
+export type SiteImportResult = {
+  sites: ImportedSite[];
+  warnings: string[];
+};
+
+export class SiteImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SiteImportError';
+  }
+}
+
+// Keep imports small enough to score in one backend call
+export const MAX_SITE_CELLS = 5000;
+
+// Sites are scored at the map data's resolution, but never coarser than this
+// (~5 km² cells): a point site on a resolution 5 cell would be scored over ~250 km²
+export const MIN_SITE_RESOLUTION = 7;
+
+const LAT_COLUMNS = ['lat', 'latitude', 'y'];
+const LNG_COLUMNS = ['lng', 'lon', 'long', 'longitude', 'x'];
+const NAME_COLUMNS = ['name', 'label', 'site', 'title', 'id'];
+
+type Position = number[];
+type GeoJsonGeometry = {
+  type: string;
+  coordinates?: unknown;
+  geometries?: GeoJsonGeometry[];
+};
+type GeoJsonFeature = {
+  type: 'Feature';
+  geometry: GeoJsonGeometry | null;
+  properties?: Record<string, unknown> | null;
+  id?: string | number;
+};
+
+function isLngLat(position: unknown): position is Position {
+  return Array.isArray(position) &&
+    position.length >= 2 &&
+    typeof position[0] === 'number' && typeof position[1] === 'number' &&
+    Math.abs(position[0]) <= 180 && Math.abs(position[1]) <= 90;
+}
+
+// Split one CSV line, honouring double-quoted fields
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+function findColumn(header: string[], candidates: string[]): number {
+  return header.findIndex((column) => candidates.includes(column.toLowerCase().replace(/[^a-z]/g, '')));
+}
+
+function pointSite(id: string, name: string, lng: number, lat: number, resolution: number): ImportedSite {
+  return {
+    id,
+    name,
+    geometry: { type: 'point', coordinates: [lng, lat] },
+    cells: [latLngToCell(lat, lng, resolution)],
+  };
+}
+
+// Polygons smaller than one cell still get the cell under their first vertex
+function polygonSite(id: string, name: string, rings: Position[][], resolution: number): ImportedSite {
+  const coordinates = rings.map((ring) => ring.map(([lng, lat]) => [lng, lat] as [number, number]));
+  let cells = polygonToCells(coordinates, resolution, true);
+  if (cells.length === 0) {
+    const [lng, lat] = coordinates[0][0];
+    cells = [latLngToCell(lat, lng, resolution)];
+  }
+  return { id, name, geometry: { type: 'polygon', coordinates }, cells };
+}
+
+export function parseSitesCsv(text: string, resolution: number): SiteImportResult {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  if (lines.length < 2) throw new SiteImportError('The CSV file has no data rows');
+
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    lines[0].split(candidate).length > lines[0].split(best).length ? candidate : best, ',');
+  const header = splitCsvLine(lines[0], delimiter);
+  const latIndex = findColumn(header, LAT_COLUMNS);
+  const lngIndex = findColumn(header, LNG_COLUMNS);
+  const nameIndex = findColumn(header, NAME_COLUMNS);
+
+  if (latIndex === -1 || lngIndex === -1) {
+    throw new SiteImportError('The CSV file needs latitude and longitude columns (e.g. "lat" and "lng")');
+  }
+
+  const sites: ImportedSite[] = [];
+  const warnings: string[] = [];
+  lines.slice(1).forEach((line, i) => {
+    const fields = splitCsvLine(line, delimiter);
+    const lat = parseFloat((fields[latIndex] || '').replace(',', '.'));
+    const lng = parseFloat((fields[lngIndex] || '').replace(',', '.'));
+    if (!isLngLat([lng, lat])) {
+      warnings.push(`Row ${i + 2}: invalid coordinates, skipped`);
+      return;
+    }
+    const name = (nameIndex !== -1 && fields[nameIndex]) || `Site ${i + 1}`;
+    sites.push(pointSite(`csv-${i + 1}`, name, lng, lat, resolution));
+  });
+
+  return { sites, warnings };
+}
+
+function sitesFromGeometry(
+  geometry: GeoJsonGeometry,
+  id: string,
+  name: string,
+  resolution: number,
+  warnings: string[]
+): ImportedSite[] {
+  const coordinates = geometry.coordinates;
+
+  switch (geometry.type) {
+    case 'Point':
+      return isLngLat(coordinates) ? [pointSite(id, name, coordinates[0], coordinates[1], resolution)] : [];
+    case 'MultiPoint':
+      return Array.isArray(coordinates)
+        ? coordinates.filter(isLngLat).map((p, i) => pointSite(`${id}-${i + 1}`, `${name} (${i + 1})`, p[0], p[1], resolution))
+        : [];
+    case 'Polygon':
+      return Array.isArray(coordinates) ? [polygonSite(id, name, coordinates as Position[][], resolution)] : [];
+    case 'MultiPolygon':
+      return Array.isArray(coordinates)
+        ? (coordinates as Position[][][]).map((rings, i) => polygonSite(`${id}-${i + 1}`, `${name} (${i + 1})`, rings, resolution))
+        : [];
+    case 'GeometryCollection':
+      return (geometry.geometries || []).flatMap((g, i) => sitesFromGeometry(g, `${id}-${i + 1}`, name, resolution, warnings));
+    default:
+      warnings.push(`${name}: unsupported geometry type ${geometry.type}, skipped`);
+      return [];
+  }
+}
+
+export function parseSitesGeoJson(text: string, resolution: number): SiteImportResult {
+  let json: { type?: string; features?: GeoJsonFeature[] } & GeoJsonGeometry;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new SiteImportError('The file is not valid JSON');
+  }
+
+  const features: GeoJsonFeature[] =
+    json.type === 'FeatureCollection' ? json.features || [] :
+    json.type === 'Feature' ? [json as unknown as GeoJsonFeature] :
+    [{ type: 'Feature', geometry: json }];
+
+  const warnings: string[] = [];
+  const sites = features.flatMap((feature, i) => {
+    const properties = feature.properties || {};
+    const nameKey = NAME_COLUMNS.find((key) => typeof properties[key] === 'string' || typeof properties[key] === 'number');
+    const name = nameKey ? String(properties[nameKey]) : `Site ${i + 1}`;
+    if (!feature.geometry) {
+      warnings.push(`${name}: no geometry, skipped`);
+      return [];
+    }
+    try {
+      return sitesFromGeometry(feature.geometry, `geojson-${feature.id ?? i + 1}`, name, resolution, warnings);
+    } catch (error) {
+      warnings.push(`${name}: ${error instanceof Error ? error.message : 'invalid geometry'}, skipped`);
+      return [];
+    }
+  });
+
+  return { sites, warnings };
+}
+
+export function parseSitesFile(fileName: string, text: string, resolution: number): SiteImportResult {
+  const lowerName = fileName.toLowerCase();
+  const result = lowerName.endsWith('.csv') || lowerName.endsWith('.txt')
+    ? parseSitesCsv(text, resolution)
+    : parseSitesGeoJson(text, resolution);
+
+  if (result.sites.length === 0) {
+    throw new SiteImportError('No usable sites found in the file');
+  }
+
+  const cellCount = new Set(result.sites.flatMap((site) => site.cells)).size;
+  if (cellCount > MAX_SITE_CELLS) {
+    throw new SiteImportError(`The sites cover ${cellCount} cells; the limit is ${MAX_SITE_CELLS}. Try smaller polygons.`);
+  }
+
+  return result;
+}
+
+export function getSiteCells(sites: ImportedSite[]): string[] {
+  return Array.from(new Set(sites.flatMap((site) => site.cells)));
+}
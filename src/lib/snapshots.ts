@@ -0,0 +1,113 @@
+// Analysis history: every dataset the map receives, and the change between two of them
+
+import { NumericMetric } from './aggregation';
+import { HexData } from './hexagons';
+import { hashSeed } from './random';
+
+export type Snapshot = {
+  id: string;
+  query?: string;     // question that produced the data; the seeded sample has none
+  label: string;
+  createdAt: Date;
+  data: HexData[];
+  signature: number;  // hash of query and data, so a re-delivered dataset is not recorded twice
+};
+
+// Two snapshots compared by one metric
+export type DiffConfig = {
+  baseId: string;
+  targetId: string;
+  metric: NumericMetric;
+};
+
+export type DiffStatus = 'kept' | 'appeared' | 'disappeared';
+
+export type DiffCell = {
+  hex: string;
+  status: DiffStatus;
+  before?: number;
+  after?: number;
+  delta?: number; // kept cells with a value on both sides
+};
+
+export type SnapshotDiff = {
+  cells: DiffCell[];
+  appeared: number;
+  disappeared: number;
+  changed: number;          // kept cells whose value moved
+  meanDelta?: number;
+};
+
+// Oldest snapshots are dropped beyond this
+export const MAX_SNAPSHOTS = 20;
+
+const MAX_LABEL_LENGTH = 48;
+
+export function snapshotLabel(query?: string): string {
+  if (!query) return 'Sample data';
+  const text = query.trim().replace(/\s+/g, ' ');
+  return text.length > MAX_LABEL_LENGTH ? `${text.slice(0, MAX_LABEL_LENGTH - 1)}…` : text;
+}
+
+export function createSnapshot(data: HexData[], query: string | undefined, createdAt: Date): Snapshot {
+  const signature = hashSeed(JSON.stringify([query ?? null, data]));
+  return {
+    id: `${createdAt.getTime().toString(36)}-${signature.toString(36)}`,
+    query,
+    label: snapshotLabel(query),
+    createdAt,
+    data,
+    signature,
+  };
+}
+
+// Add a dataset to the history; the same query and data again (e.g. back/forward
+// bringing an answer back) returns the snapshot already recorded
+export function recordSnapshot(
+  snapshots: Snapshot[],
+  data: HexData[],
+  query: string | undefined,
+  createdAt: Date
+): { snapshots: Snapshot[]; current: Snapshot } {
+  const snapshot = createSnapshot(data, query, createdAt);
+  const existing = snapshots.find((s) => s.signature === snapshot.signature);
+  if (existing) return { snapshots, current: existing };
+  return { snapshots: [...snapshots, snapshot].slice(-MAX_SNAPSHOTS), current: snapshot };
+}
+
+// Cells are matched by H3 index, so snapshots at different resolutions only
+// share the cells they have in common
+export function diffSnapshots(
+  base: Snapshot,
+  target: Snapshot,
+  getValue: (d: HexData) => number | undefined
+): SnapshotDiff {
+  const baseCells = new Map(base.data.map((d) => [d.hex, d]));
+  const targetHexes = new Set(target.data.map((d) => d.hex));
+
+  const cells: DiffCell[] = target.data.map((d) => {
+    const before = baseCells.get(d.hex);
+    const after = getValue(d);
+    if (!before) return { hex: d.hex, status: 'appeared', after };
+    const beforeValue = getValue(before);
+    return {
+      hex: d.hex,
+      status: 'kept',
+      before: beforeValue,
+      after,
+      delta: beforeValue !== undefined && after !== undefined ? after - beforeValue : undefined,
+    };
+  });
+  base.data
+    .filter((d) => !targetHexes.has(d.hex))
+    .forEach((d) => cells.push({ hex: d.hex, status: 'disappeared', before: getValue(d) }));
+
+  const deltas = cells.map((c) => c.delta).filter((v): v is number => v !== undefined);
+  return {
+    cells,
+    appeared: cells.filter((c) => c.status === 'appeared').length,
+    disappeared: cells.filter((c) => c.status === 'disappeared').length,
+    changed: deltas.filter((v) => v !== 0).length,
+    meanDelta: deltas.length > 0 ? deltas.reduce((sum, v) => sum + v, 0) / deltas.length : undefined,
+  };
+}
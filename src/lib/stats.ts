@@ -0,0 +1,19 @@
+// Small statistics helpers used by the map panels
+
+// Share of values (0-1) that are lower than or equal to the given value
+export function percentileRank(values: number[], value: number): number {
+  const valid = values.filter((v) => typeof v === 'number' && !isNaN(v));
+  if (valid.length === 0) return 0;
+  const atOrBelow = valid.filter((v) => v <= value).length;
+  return atOrBelow / valid.length;
+}
+
+// 0.92 -> "92nd percentile"
+export function formatPercentile(rank: number): string {
+  const percentile = Math.round(rank * 100);
+  const lastTwo = percentile % 100;
+  const suffix = lastTwo >= 11 && lastTwo <= 13
+    ? 'th'
+    : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[percentile % 10] || 'th';
+  return `${percentile}${suffix} percentile`;
+}
@@ -0,0 +1,101 @@
+// Newline-delimited JSON (NDJSON) streaming shared by the API routes and the chat
+
+export const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+
+// Events sent from the API routes to the chat, one JSON object per line.
+// `token` events carry markdown as it is produced, `data` carries the map
+// payload once the answer is complete, `done` always closes a successful stream.
+export type StreamEvent<TData = unknown> =
+  | { type: 'token'; content: string }
+  | { type: 'data'; data: TData }
+  | { type: 'error'; message: string }
+  | { type: 'done' };
+
+export type EmitEvent<TData> = (event: StreamEvent<TData>) => void;
+
+// Build a streaming response; `run` emits events and the stream closes when it settles
+export function createNdjsonResponse<TData>(run: (emit: EmitEvent<TData>) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const emit: EmitEvent<TData> = (event) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        } catch {
+          // Client went away
+          closed = true;
+        }
+      };
+
+      try {
+        await run(emit);
+      } catch (error) {
+        emit({ type: 'error', message: error instanceof Error ? error.message : 'Stream failed' });
+      } finally {
+        closed = true;
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a cancelled reader
+        }
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': NDJSON_CONTENT_TYPE,
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
+
+export function isNdjsonResponse(response: Response): boolean {
+  return (response.headers.get('content-type') || '').includes(NDJSON_CONTENT_TYPE);
+}
+
+// Read an NDJSON body line by line; malformed lines are skipped
+export async function readNdjson<T = unknown>(response: Response, onLine: (line: T) => void): Promise<void> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  // Only parse errors are skipped; errors thrown by `onLine` propagate to the caller
+  const flushLine = (line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+    let parsed: T;
+    try {
+      parsed = JSON.parse(trimmed) as T;
+    } catch {
+      console.warn('Skipping malformed stream line:', trimmed.slice(0, 100));
+      return;
+    }
+    onLine(parsed);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    try {
+      lines.forEach(flushLine);
+    } catch (error) {
+      // Stop the stream rather than leave it open behind a failed reader
+      reader.cancel().catch(() => {});
+      throw error;
+    }
+  }
+
+  buffer += decoder.decode();
+  flushLine(buffer);
+}
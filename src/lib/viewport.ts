@@ -0,0 +1,126 @@
+// Map viewport helpers shared by the map, chat and API routes
+
+import { WebMercatorViewport, MapViewState } from '@deck.gl/core';
+import { cellToBoundary, cellToLatLng } from 'h3-js';
+
+// [west, south, east, north] in degrees
+export type Bounds = [number, number, number, number];
+
+export type CurrentView = {
+  lat: number;
+  lng: number;
+  zoom: number;
+  bounds?: Bounds;
+};
+
+export type MapSize = {
+  width: number;
+  height: number;
+};
+
+export const INITIAL_VIEW_STATE: MapViewState = {
+  longitude: 2.2137,
+  latitude: 46.2276,
+  zoom: 6,
+  pitch: 45,
+  bearing: -20,
+  maxZoom: 12,
+  minZoom: 4
+};
+
+export function getViewBounds(viewState: MapViewState, size: MapSize): Bounds | undefined {
+  if (!size.width || !size.height) return undefined;
+
+  try {
+    const viewport = new WebMercatorViewport({ ...viewState, ...size });
+    const [west, south, east, north] = viewport.getBounds();
+    return [west, south, east, north];
+  } catch (error) {
+    console.warn('Could not compute view bounds:', error);
+    return undefined;
+  }
+}
+
+export function toCurrentView(viewState: MapViewState, size: MapSize): CurrentView {
+  const bounds = getViewBounds(viewState, size);
+  return {
+    lat: Number(viewState.latitude.toFixed(5)),
+    lng: Number(viewState.longitude.toFixed(5)),
+    zoom: Number(viewState.zoom.toFixed(2)),
+    ...(bounds && { bounds: bounds.map((v) => Number(v.toFixed(5))) as Bounds })
+  };
+}
+
+export function isValidBounds(bounds: unknown): bounds is Bounds {
+  return Array.isArray(bounds) &&
+    bounds.length === 4 &&
+    bounds.every((v) => typeof v === 'number' && isFinite(v));
+}
+
+// True if the cell's centroid falls inside the bounds
+export function isCellInBounds(h3Index: string, bounds: Bounds): boolean {
+  const [west, south, east, north] = bounds;
+  try {
+    const [lat, lng] = cellToLatLng(h3Index);
+    return lat >= south && lat <= north && lng >= west && lng <= east;
+  } catch {
+    return false;
+  }
+}
+
+export function filterRecordToBounds<T>(record: Record<string, T>, bounds: Bounds): Record<string, T> {
+  return Object.fromEntries(
+    Object.entries(record).filter(([h3Index]) => isCellInBounds(h3Index, bounds))
+  );
+}
+
+// Bounds enclosing every vertex of the given cells
+export function getCellsBounds(h3Indexes: string[]): Bounds | undefined {
+  let west = Infinity, south = Infinity, east = -Infinity, north = -Infinity;
+
+  for (const h3Index of h3Indexes) {
+    try {
+      for (const [lat, lng] of cellToBoundary(h3Index)) {
+        west = Math.min(west, lng);
+        east = Math.max(east, lng);
+        south = Math.min(south, lat);
+        north = Math.max(north, lat);
+      }
+    } catch {
+      // Skip invalid cells
+    }
+  }
+
+  return isFinite(west) ? [west, south, east, north] : undefined;
+}
+
+// Camera position that frames the given cells, keeping pitch and bearing
+export function fitViewToCells(
+  viewState: MapViewState,
+  size: MapSize,
+  h3Indexes: string[],
+  padding = 80
+): MapViewState | undefined {
+  const bounds = getCellsBounds(h3Indexes);
+  if (!bounds || !size.width || !size.height) return undefined;
+
+  const [west, south, east, north] = bounds;
+  try {
+    const viewport = new WebMercatorViewport({ ...size, longitude: viewState.longitude, latitude: viewState.latitude, zoom: viewState.zoom });
+    const { longitude, latitude, zoom } = viewport.fitBounds(
+      [[west, south], [east, north]],
+      { padding: Math.min(padding, size.width / 4, size.height / 4) }
+    );
+    const maxZoom = Math.min(viewState.maxZoom ?? 20, 10);
+    const minZoom = viewState.minZoom ?? 0;
+    return {
+      ...viewState,
+      longitude,
+      latitude,
+      zoom: Math.max(minZoom, Math.min(maxZoom, zoom))
+    };
+  } catch (error) {
+    console.warn('Could not fit view to cells:', error);
+    return undefined;
+  }
+}